@@ -19,61 +19,455 @@
 
 import c from 'classnames';
 // FIX: Add DragEvent for typing drop events, and Type for Gemini file types.
-import {useEffect, useRef, useState, DragEvent, ChangeEvent} from 'react';
-import {generateContent, uploadFile} from './api';
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  DragEvent,
+  ChangeEvent,
+} from 'react';
+import {
+  generateContent,
+  getCurrentProviderSettings,
+  getProvider,
+  isFileUsable,
+  setProviderSettings,
+  uploadFile,
+} from './api';
+import Chart from './Chart.jsx';
+import {classificationFromResponse} from './classification';
+import ClassificationPanel from './ClassificationPanel.jsx';
+import {
+  CompareResult,
+  CompareVariant,
+  compareJobId,
+  loadVariants,
+  newVariant,
+  saveVariants,
+} from './compare';
+import CompareDialog from './CompareDialog.jsx';
+import {hashFile} from './contentHash';
+import CueDiff from './CueDiff.jsx';
+import {TimecodeItem, retimeCue, snapCues} from './cueEdits';
+import {useEditHistory} from './editHistory';
+import ExportMenu from './ExportMenu.jsx';
 import functions from './functions';
-import modes from './modes';
-import {timeToSecs} from './utils';
+import InvalidTimecodes from './InvalidTimecodes.jsx';
+import {
+  JobStatus,
+  abortError,
+  getConcurrency,
+  isAbortError,
+  runQueue,
+  setConcurrency,
+} from './jobQueue';
+import JobStateIcon from './JobStateIcon.jsx';
+import KeywordReport from './KeywordReport.jsx';
+import {
+  KeywordRule,
+  buildRuleCorrectionPrompt,
+  checkKeywordRules,
+  fixKeywordRules,
+} from './keywordRules';
+import ModeManager from './ModeManager.jsx';
+import {
+  ModeEntry,
+  builtInModes,
+  loadCustomModes,
+  saveCustomModes,
+} from './modeStore';
+import {MODE_SEO, MODE_SUBTITLES, ModeOutput} from './modes';
+import {Mp4FormatError} from './mp4Boxes';
+import {VideoMetadata, canEmbedMetadata, embedMetadata} from './mp4Metadata';
+import {
+  PromptInputs,
+  buildVariables,
+  inputVariables,
+  renderTemplate,
+  usedVariables,
+} from './promptTemplate';
+import {ModelResponse, ProviderSettings} from './provider';
+import ProviderSelector from './ProviderSelector.jsx';
+import ReviewGrid from './ReviewGrid.jsx';
+import RiskReport from './RiskReport.jsx';
+import {
+  RELEASE_REVIEW_PROMPT,
+  findRiskHits,
+  loadRiskTerms,
+  releaseReviewFromResponse,
+  removeRiskTerms,
+  saveRiskTerms,
+  usageLabel,
+  usageLabels,
+} from './riskTerms';
+import {
+  clearResponseCache,
+  clearUsageRecords,
+  getKeepBlobs,
+  getResponseCacheStats,
+  getStoredActiveVideoId,
+  getStoredPromptInputs,
+  loadLibrary,
+  loadUsageRecords,
+  saveLibrary,
+  setKeepBlobs as storeKeepBlobs,
+  setStoredActiveVideoId,
+  setStoredPromptInputs,
+} from './storage';
+import StockExportDialog from './StockExportDialog.jsx';
+import {
+  canStream,
+  getStreaming,
+  parseCueLines,
+  parseStreamedSeo,
+  setStreaming,
+  streamInstruction,
+} from './streaming';
+import StreamingOutput from './StreamingOutput.jsx';
+import {
+  AgencyId,
+  agencies,
+  buildMetadataCsv,
+  toStockItem,
+} from './stockExport';
+import {
+  SubtitleFormat,
+  fromCues,
+  parseSubtitles,
+  subtitleFileName,
+  subtitleFormats,
+  toCues,
+} from './subtitles';
+import {
+  SeoValidationError,
+  formatSeoText,
+  parseSeoResponse,
+  seoDataFromResponse,
+  validateSeoArgs,
+} from './seo';
+import SegmentPanel from './SegmentPanel.jsx';
+import {
+  addSegment,
+  segmentProbe,
+  segmentsFromCuts,
+  withSegments,
+} from './segments';
+import {detectShots, shotPromptNote} from './shotDetection';
+import {normalizeTimecodes} from './timecode';
+import TimecodeEditor from './TimecodeEditor.jsx';
+import {
+  ApprovalState,
+  SeoData,
+  StockClassification,
+  UsageRecord,
+  VideoFileEntry,
+  VideoProbe,
+  VideoSegment,
+} from './types';
+import {UploadError} from './uploadErrors';
+import {
+  dayKey,
+  estimateRunCost,
+  formatCost,
+  loadBudget,
+  loadPrices,
+  saveBudget,
+  savePrices,
+  subscribeUsage,
+  totalCost,
+} from './usage';
+import UsagePanel from './UsagePanel.jsx';
+import {downloadBlob, getVideoDuration} from './utils';
 import VideoPlayer from './VideoPlayer.jsx';
+import {
+  captureThumbnail,
+  formatProbe,
+  probePromptNote,
+  probeVideo,
+} from './videoProbe';
+import {createZip} from './zip';
 
-const MODE_SEO = 'SEO Описание';
-
-// FIX: The `Type.Blob` is an incorrect type. The `Type` enum from `@google/genai` is for
-// function calling schema definitions and does not have a `Blob` property.
-// It has been replaced with `any` to correctly type the Gemini file object.
-interface VideoFileEntry {
-  id: string;
-  name: string;
-  url: string;
-  file: File;
-  geminiFile: any | null;
-  uploadError: string | null;
-  // Persistence fields
-  seoData?: { title: string; russianTitle: string; keywords: string };
-  textResponse?: string | null;
-  timecodeList?: any[] | null;
+interface UploadStatus {
+  stage: 'hashing' | 'uploading' | 'processing';
+  progress: number;
 }
 
+const uploadStageLabels: Record<UploadStatus['stage'], string> = {
+  hashing: 'Проверка, загружалось ли видео раньше',
+  uploading: 'Загрузка',
+  processing: 'Обработка на сервере',
+};
+
+interface GenerationRun {
+  modeId: string;
+  // Bypasses the response cache.
+  regenerate?: boolean;
+  inputs: PromptInputs;
+}
+
+const describeError = (e: unknown) =>
+  e instanceof SeoValidationError
+    ? `Некорректный ответ модели: ${e.message}`
+    : (e as Error).message;
+
+// Stock agencies read the title as the clip description as well.
+const videoMetadata = (video: VideoFileEntry): VideoMetadata => {
+  const {title, keywords} = toStockItem(video);
+  return {title, description: title, keywords};
+};
+
+const hasSeoData = (video: VideoFileEntry) =>
+  !!(video.seoData?.title || video.seoData?.keywords);
+
+// Local analysis runs once per file; its results are saved with the library.
+const needsProbe = (v: VideoFileEntry) =>
+  !v.probe || !v.thumbnail || !v.shotCuts;
+
+// Fills the mode's template for one video. The additional context and the
+// probe note are appended only when the template does not place them itself.
+const buildPrompt = (
+  mode: ModeEntry,
+  video: VideoFileEntry | null,
+  inputs: PromptInputs,
+) => {
+  const used = usedVariables(mode.prompt);
+  let {text, missing} = renderTemplate(
+    mode.prompt,
+    buildVariables(video, inputs),
+  );
+  if (inputs.context.trim() && !used.includes('context')) {
+    text += `\n\nВАЖНО: При генерации обязательно учти следующий контекст или ключевые слова: "${inputs.context.trim()}"`;
+  }
+  if (mode.output === 'seo' && video?.probe && !used.includes('resolution')) {
+    text += `\n\n${probePromptNote(video.probe)}`;
+  }
+  if (
+    mode.output === 'timecodes' &&
+    video?.shotCuts?.length &&
+    !used.includes('cuts')
+  ) {
+    text += `\n\n${shotPromptNote(video.shotCuts)}`;
+  }
+  return {text, missing};
+};
+
+const modeFunctions = (mode: ModeEntry) => {
+  switch (mode.output) {
+    case 'seo':
+      return functions({set_seo_metadata: (args) => args});
+    case 'timecodes':
+      return functions({
+        set_timecodes: (args) => args // Return args to be handled later
+      });
+    case 'chart':
+      return functions({
+        set_timecodes_with_numeric_values: (args) => args,
+      });
+    case 'classification':
+      return functions({set_stock_classification: (args) => args});
+    case 'function':
+      return [mode.functionDeclaration];
+    default:
+      return null;
+  }
+};
+
+// Turns a model response into the fields stored on the video entry.
+// Timecodes are normalized against the video's probe. Streamed responses
+// carry the result as text, see streaming.ts.
+const parseModeResult = (
+  mode: ModeEntry,
+  resp: ModelResponse,
+  probe?: VideoProbe,
+  streamed = false,
+): Partial<VideoFileEntry> => {
+  const normalize = <T extends {time: string}>(list: T[]) => {
+    const result = normalizeTimecodes(list, {
+      duration: probe?.duration,
+      fps: probe?.frameRate,
+    });
+    if (result.invalid.length && !result.timecodes.length) {
+      throw new Error(
+        `Модель вернула нераспознанные таймкоды: ${result.invalid.join(', ')}`,
+      );
+    }
+    return result;
+  };
+  switch (mode.output) {
+    case 'seo': {
+      const seo = streamed
+        ? validateSeoArgs(parseSeoResponse(resp.text))
+        : seoDataFromResponse(resp);
+      return {seoData: seo, textResponse: formatSeoText(seo)};
+    }
+    case 'timecodes': {
+      if (streamed) {
+        const {timecodes, invalid} = normalize(parseCueLines(resp.text, true));
+        if (!timecodes.length) throw new Error('Модель не вернула таймкоды.');
+        return {timecodeList: timecodes, invalidTimecodes: invalid};
+      }
+      const call = resp.functionCalls?.[0];
+      if (!call || call.name !== 'set_timecodes') {
+        throw new Error('Некорректный ответ модели.');
+      }
+      const {timecodes, invalid} = normalize(
+        call.args.timecodes.map((t: any) => ({
+          ...t,
+          time: String(t.time),
+          text: String(t.text ?? '').replaceAll("\\'", "'"),
+        })),
+      );
+      return {timecodeList: timecodes, invalidTimecodes: invalid};
+    }
+    case 'classification':
+      return {classification: classificationFromResponse(resp)};
+    case 'chart': {
+      const call = resp.functionCalls.find(
+        (fc) => fc.name === 'set_timecodes_with_numeric_values',
+      );
+      const scored: {time: string; value: number}[] = (
+        call?.args?.timecodes || []
+      )
+        .map((t: any) => ({time: String(t.time), value: Number(t.value)}))
+        .filter((t) => Number.isFinite(t.value));
+      const {timecodes: points, invalid} = normalize(scored);
+      if (points.length === 0) {
+        throw new Error('Модель не вернула числовые оценки.');
+      }
+      return {chartData: points, invalidTimecodes: invalid};
+    }
+    case 'function': {
+      const call = resp.functionCalls.find(
+        (fc) => fc.name === mode.functionDeclaration.name,
+      );
+      if (!call) {
+        throw new Error(
+          `Модель не вызвала ${mode.functionDeclaration.name}.`,
+        );
+      }
+      return {textResponse: JSON.stringify(call.args, null, 2)};
+    }
+    default:
+      return {textResponse: resp.text};
+  }
+};
+
+// What a stopped stream leaves: the fields and cues received so far.
+const partialModeResult = (
+  mode: ModeEntry,
+  text: string,
+  probe?: VideoProbe,
+): Partial<VideoFileEntry> | null => {
+  switch (mode.output) {
+    case 'seo': {
+      const seo = parseStreamedSeo(text);
+      return seo.title || seo.keywords
+        ? {seoData: seo, textResponse: formatSeoText(seo)}
+        : null;
+    }
+    case 'timecodes': {
+      const {timecodes, invalid} = normalizeTimecodes(
+        parseCueLines(text, false),
+        {duration: probe?.duration, fps: probe?.frameRate},
+      );
+      return timecodes.length
+        ? {timecodeList: timecodes, invalidTimecodes: invalid}
+        : null;
+    }
+    default:
+      return {textResponse: text};
+  }
+};
+
 export default function App() {
   // FIX: Add types to useState hooks for better type safety.
   // Removed separate state for vidUrl and file to fix synchronization issues
   const [videoFiles, setVideoFiles] = useState<VideoFileEntry[]>([]); // {id, name, url, file, geminiFile, uploadError}
   const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
   const [timecodeList, setTimecodeList] = useState<any[] | null>(null);
+  const [chartData, setChartData] = useState<
+    VideoFileEntry['chartData'] | null
+  >(null);
   const [textResponse, setTextResponse] = useState<string | null>(null);
   const [requestedTimecode, setRequestedTimecode] = useState<number | null>(
     null,
   );
+  const [customModes, setCustomModes] = useState(loadCustomModes);
+  const [showModeManager, setShowModeManager] = useState(false);
   const [selectedMode, setSelectedMode] = useState<string>(
-    Object.keys(modes)[0],
+    builtInModes[0].id,
   );
   const [activeMode, setActiveMode] = useState<string>();
-  const [isLoading, setIsLoading] = useState(false);
+  const [jobStatus, setJobStatus] = useState<Record<string, JobStatus>>({});
+  const [batchIds, setBatchIds] = useState<string[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [concurrency, setConcurrencyState] = useState(getConcurrency);
+  const [streaming, setStreamingState] = useState(getStreaming);
+  // Text received so far by streamed jobs, by video id.
+  const [streams, setStreams] = useState<
+    Record<string, {output: ModeOutput; text: string}>
+  >({});
+  const [uploadStatus, setUploadStatus] = useState<
+    Record<string, UploadStatus>
+  >({});
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  // One per streamed job, so stopping a stream leaves the batch running.
+  const streamControllers = useRef(new Map<string, AbortController>());
+  const lastRunRef = useRef<GenerationRun | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
   const [showSidebar, setShowSidebar] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
   const [videoError, setVideoError] = useState(false);
-  const [seoData, setSeoData] = useState({
+  const [seoData, setSeoData] = useState<SeoData>({
     title: '',
     russianTitle: '',
     keywords: '',
   });
+  const history = useEditHistory<TimecodeItem[]>();
+  const playheadRef = useRef(0);
   const [copiedPart, setCopiedPart] = useState<string | null>(null);
   const [correctionText, setCorrectionText] = useState('');
   const [isCorrecting, setIsCorrecting] = useState(false);
+  const [riskTerms, setRiskTerms] = useState(loadRiskTerms);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  // Cues proposed by a model correction, shown as a diff until accepted.
+  const [cueProposal, setCueProposal] = useState<TimecodeItem[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [embedError, setEmbedError] = useState<string | null>(null);
+  const [stockExportAgency, setStockExportAgency] = useState<AgencyId | null>(
+    null,
+  );
+  // Videos picked in the review grid; null exports every video.
+  const [stockExportIds, setStockExportIds] = useState<string[] | null>(null);
+  const [showReview, setShowReview] = useState(false);
   
   // New state for additional inputs
   const [additionalText, setAdditionalText] = useState('');
   const [applyToAll, setApplyToAll] = useState(false);
+  const [promptInputs, setPromptInputs] = useState(getStoredPromptInputs);
+
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+  const [keepBlobs, setKeepBlobs] = useState(getKeepBlobs);
+  const [providerSettings, setProviderSettingsState] = useState(
+    getCurrentProviderSettings,
+  );
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState(loadPrices);
+  const [budget, setBudget] = useState(loadBudget);
+  const [showUsage, setShowUsage] = useState(false);
+  // Videos in the comparison dialog; null when it is closed.
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [compareVariants, setCompareVariants] = useState(loadVariants);
+  const [compareResults, setCompareResults] = useState<
+    Record<string, CompareResult>
+  >({});
+  const [cacheStats, setCacheStats] = useState<{
+    entries: number;
+    bytes: number;
+  } | null>(null);
 
   const [theme] = useState(
     window.matchMedia('(prefers-color-scheme: dark)').matches
@@ -83,11 +477,146 @@ export default function App() {
   // FIX: Type useRef and handle potential null value for the ref.
   const scrollRef = useRef<HTMLElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
 
   // Derived state
+  const allModes = [...builtInModes, ...customModes];
+  const findMode = (id: string | undefined) => allModes.find((m) => m.id === id);
+  const isSeoView = findMode(activeMode)?.output === 'seo';
+  const selectedModeConfig = findMode(selectedMode);
+  const selectedVariables = usedVariables(selectedModeConfig?.prompt || '');
   const activeVideo = activeVideoId ? videoFiles.find((v) => v.id === activeVideoId) : null;
   const vidUrl = activeVideo?.url || null;
   const file = activeVideo?.geminiFile || null;
+  const promptPreview = selectedModeConfig
+    ? buildPrompt(selectedModeConfig, activeVideo, {
+        ...promptInputs,
+        context: additionalText,
+      })
+    : null;
+  const generationTargets = () =>
+    applyToAll
+      ? videoFiles.filter((v) => v.geminiFile)
+      : videoFiles.filter((v) => v.id === activeVideoId && v.geminiFile);
+  const today = dayKey(Date.now());
+  const todayCost = totalCost(
+    usageRecords.filter((r) => dayKey(r.time) === today),
+    prices,
+  );
+  const runEstimate = selectedModeConfig
+    ? estimateRunCost(
+        usageRecords,
+        prices,
+        {mode: selectedModeConfig.name, model: getProvider().model},
+        generationTargets(),
+      )
+    : 0;
+  const overBudget = budget > 0 && todayCost + runEstimate > budget;
+  const activeJob = activeVideoId ? jobStatus[activeVideoId] : undefined;
+  const isLoading =
+    activeJob?.state === 'queued' || activeJob?.state === 'running';
+  const batchDone = batchIds.filter(
+    (id) => jobStatus[id]?.state === 'done',
+  ).length;
+  // Segment jobs are retried from the segment panel, not with the batch.
+  const failedCount = videoFiles.filter((v) =>
+    ['failed', 'cancelled'].includes(jobStatus[v.id]?.state),
+  ).length;
+
+  // Restore the library saved by a previous session.
+  useEffect(() => {
+    loadLibrary()
+      .then((stored) => {
+        if (stored.length === 0) return;
+        // Handles from another provider, or in-memory ones, cannot be reused.
+        const videos = stored.map((v) =>
+          isFileUsable(v.geminiFile) ? v : {...v, geminiFile: null},
+        );
+        setVideoFiles(videos);
+        const storedId = getStoredActiveVideoId();
+        setActiveVideoId(
+          videos.some((v) => v.id === storedId) ? storedId : videos[0].id,
+        );
+        // Gemini handles that expired meanwhile are re-uploaded from the saved blob.
+        uploadEntries(
+          videos.filter((v) => v.file && !v.geminiFile && !v.uploadError),
+        );
+        probeEntries(videos.filter((v) => v.file && needsProbe(v)));
+      })
+      .catch((err) => console.error('Failed to restore library', err))
+      .finally(() => setLibraryLoaded(true));
+  }, []);
+
+  // Calls made before the history finished loading are kept.
+  useEffect(() => {
+    loadUsageRecords()
+      .then((stored) =>
+        setUsageRecords((prev) => [
+          ...stored,
+          ...prev.filter((r) => !stored.some((s) => s.id === r.id)),
+        ]),
+      )
+      .catch((err) => console.error('Failed to load usage', err));
+    return subscribeUsage((record) =>
+      setUsageRecords((prev) => [...prev, record]),
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!libraryLoaded) return;
+    const timeout = setTimeout(() => {
+      saveLibrary(videoFiles, keepBlobs).catch((err) =>
+        console.error('Failed to save library', err),
+      );
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [videoFiles, keepBlobs, libraryLoaded]);
+
+  useEffect(() => {
+    if (libraryLoaded) setStoredActiveVideoId(activeVideoId);
+  }, [activeVideoId, libraryLoaded]);
+
+  const handleProviderChange = (next: ProviderSettings) => {
+    const previousProvider = getProvider().id;
+    setProviderSettings(next);
+    setProviderSettingsState(next);
+    if (getProvider().id === previousProvider) return;
+
+    // Files must be uploaded again to the newly selected provider.
+    const reupload = videoFiles
+      .filter((v) => v.file)
+      .map((v) => ({...v, geminiFile: null, uploadError: null}));
+    setVideoFiles((prev) =>
+      prev.map(
+        (v) =>
+          reupload.find((r) => r.id === v.id) ||
+          (v.file ? v : {...v, geminiFile: null}),
+      ),
+    );
+    uploadEntries(reupload);
+  };
+
+  const handleCustomModesChange = (next: ModeEntry[]) => {
+    saveCustomModes(next);
+    setCustomModes(next);
+    if (!next.some((m) => m.id === selectedMode) && !findMode(selectedMode)?.builtIn) {
+      setSelectedMode(builtInModes[0].id);
+    }
+  };
+
+  const handlePromptInputChange = (
+    name: 'language' | 'collection',
+    value: string,
+  ) => {
+    const next = {...promptInputs, [name]: value};
+    setPromptInputs(next);
+    setStoredPromptInputs(next);
+  };
+
+  const handleKeepBlobsChange = (keep: boolean) => {
+    storeKeepBlobs(keep);
+    setKeepBlobs(keep);
+  };
 
   useEffect(() => {
     if (!activeVideo) {
@@ -99,15 +628,51 @@ export default function App() {
       return;
     }
       
-    // Restore persisted data
-    if (activeVideo.seoData && (activeVideo.seoData.title || activeVideo.seoData.keywords)) {
+    // Restore persisted data. Entries saved before `lastMode` existed fall
+    // back to inferring the mode from the stored fields.
+    const lastMode = findMode(activeVideo.lastMode);
+    setChartData(null);
+    const hasSeo =
+      activeVideo.seoData &&
+      (activeVideo.seoData.title || activeVideo.seoData.keywords);
+    // Classification results are shown inside the SEO panel when there is one.
+    if (
+      hasSeo &&
+      (!lastMode || ['seo', 'classification'].includes(lastMode.output))
+    ) {
       setSeoData(activeVideo.seoData);
-      setTextResponse(activeVideo.textResponse || null);
-      setActiveMode(MODE_SEO);
-    } else if (activeVideo.timecodeList) {
+      setTextResponse(
+        lastMode
+          ? formatSeoText(activeVideo.seoData)
+          : activeVideo.textResponse || null,
+      );
+      setActiveMode(lastMode?.output === 'seo' ? lastMode.id : MODE_SEO);
+    } else if (
+      activeVideo.timecodeList &&
+      (!lastMode || lastMode.output === 'timecodes')
+    ) {
       setTimecodeList(activeVideo.timecodeList);
       setTextResponse(null);
-      setActiveMode('Аудио/Видео субтитры'); // Infer mode or store it
+      setActiveMode(lastMode?.id || MODE_SUBTITLES);
+      setSeoData({title: '', russianTitle: '', keywords: ''});
+    } else if (
+      lastMode?.output === 'classification' &&
+      activeVideo.classification
+    ) {
+      setTimecodeList(null);
+      setTextResponse(null);
+      setActiveMode(lastMode.id);
+      setSeoData({title: '', russianTitle: '', keywords: ''});
+    } else if (lastMode?.output === 'chart' && activeVideo.chartData) {
+      setChartData(activeVideo.chartData);
+      setTimecodeList(null);
+      setTextResponse(null);
+      setActiveMode(lastMode.id);
+      setSeoData({title: '', russianTitle: '', keywords: ''});
+    } else if (lastMode && activeVideo.textResponse) {
+      setTimecodeList(null);
+      setTextResponse(activeVideo.textResponse);
+      setActiveMode(lastMode.id);
       setSeoData({title: '', russianTitle: '', keywords: ''});
     } else {
       // Reset if no data
@@ -117,70 +682,77 @@ export default function App() {
       setActiveMode(undefined);
     }
     setCorrectionText('');
+    setCorrectionError(null);
+    setEmbedError(null);
+    setReviewError(null);
   }, [activeVideoId, activeVideo]); 
 
-  const setTimecodes = ({timecodes}: {timecodes: any[]}) => {
-    const processed = timecodes.map((t) => ({...t, text: t.text.replaceAll("\\'", "'")}));
-    setTimecodeList(processed);
-    // Persist
-    setVideoFiles(prev => prev.map(v => v.id === activeVideoId ? {...v, timecodeList: processed} : v));
-  };
-
-  const parseSeoResponse = (text: string | null) => {
-    if (!text) return {title: '', russianTitle: '', keywords: ''};
-
-    const clean = (str: string | undefined) =>
-      (str || '').replace(/\*/g, '').trim();
-
-    const allHeaders = [
-      'Заголовок',
-      'Title',
-      'Russian Title',
-      'Русский заголовок',
-      'Ключевые слова',
-      'Keywords',
-    ];
+  useEffect(() => {
+    setCueProposal(null);
+    setImportError(null);
+    setExportError(null);
+  }, [activeVideoId]);
 
-    const getSectionContent = (currentHeaders: string[]) => {
-      const lookaheadHeaders = allHeaders.filter(
-        (h) => !currentHeaders.some((ch) => h.toLowerCase() === ch.toLowerCase()),
-      );
+  // Manual edits of the active video's cues; each call is one undo step.
+  const commitTimecodes = (next: TimecodeItem[]) => {
+    if (!activeVideoId) return;
+    history.record(activeVideoId, timecodeList || []);
+    applyTimecodes(next);
+  };
 
-      const regex = new RegExp(
-        `\\**\\s*(?:${currentHeaders.join('|')})\\**\\s*:\\s*([\\s\\S]*?)(?=\\n\\s*\\**\\s*(?:${lookaheadHeaders.join('|')})\\**\\s*:|$)`,
-        'i',
-      );
+  const applyTimecodes = (next: TimecodeItem[]) => {
+    setTimecodeList(next);
+    setVideoFiles((prev) =>
+      prev.map((v) => (v.id === activeVideoId ? {...v, timecodeList: next} : v)),
+    );
+  };
 
-      const match = text.match(regex);
-      return match ? clean(match[1]) : '';
-    };
+  const handleUndo = () => {
+    const previous = history.undo(activeVideoId, timecodeList || []);
+    if (previous) applyTimecodes(previous);
+  };
 
-    const title = getSectionContent(['Заголовок', 'Title']);
-    const russianTitle = getSectionContent([
-      'Russian Title',
-      'Русский заголовок',
-    ]);
-    let keywords = getSectionContent(['Ключевые слова', 'Keywords']);
+  const handleRedo = () => {
+    const next = history.redo(activeVideoId, timecodeList || []);
+    if (next) applyTimecodes(next);
+  };
 
-    if (!title && !keywords && !russianTitle) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
       if (
-        !allHeaders.some((h) =>
-          new RegExp(`\\**\\s*${h}\\**\\s*:`, 'i').test(text),
-        )
+        !timecodeList ||
+        !(e.ctrlKey || e.metaKey) ||
+        e.key.toLowerCase() !== 'z' ||
+        target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA'
       ) {
-        keywords = clean(text);
+        return;
       }
-    }
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    addEventListener('keydown', onKeyDown);
+    return () => removeEventListener('keydown', onKeyDown);
+  });
 
-    return {title, russianTitle, keywords};
+  const setTimecodes = ({timecodes}: {timecodes: any[]}) => {
+    const processed = timecodes.map((t) => ({...t, text: t.text.replaceAll("\\'", "'")}));
+    setTimecodeList(processed);
+    // Persist
+    setVideoFiles(prev => prev.map(v => v.id === activeVideoId ? {...v, timecodeList: processed} : v));
   };
 
   useEffect(() => {
-    if (activeMode === MODE_SEO && textResponse) {
-      // Optimization: Only parse if we need to display it and it's not coming from a persisted state we just set
-      // But for simplicity, parsing again is cheap.
-      // We do NOT call setSeoData here to avoid loops if setSeoData triggers something,
-      // but strictly speaking, textResponse is the source of truth for current display.
+    // Fallback for responses saved before structured output, when only the
+    // free text is available.
+    if (
+      isSeoView &&
+      textResponse &&
+      !seoData.title &&
+      !seoData.keywords
+    ) {
       const parsed = parseSeoResponse(textResponse);
       // Only set if different to avoid potential render loops if object identity changes
       if (parsed.title !== seoData.title || parsed.keywords !== seoData.keywords) {
@@ -195,191 +767,758 @@ export default function App() {
     setTimeout(() => setCopiedPart(null), 2000); // Reset after 2 seconds
   };
 
+  const setStatus = (id: string, status: JobStatus) =>
+    setJobStatus((prev) => ({...prev, [id]: status}));
+
+  // Runs jobs as the current batch, behind the progress counter and the
+  // cancel button.
+  const runBatch = async <T extends {id: string}>(
+    items: T[],
+    job: (item: T, signal: AbortSignal) => Promise<void>,
+  ) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setBatchIds(items.map((item) => item.id));
+    setIsBatchRunning(true);
+
+    await runQueue(items, job, {
+      concurrency,
+      signal: controller.signal,
+      onStatus: (id, status) => {
+        if (status.state === 'failed') {
+          console.error(`Error processing ${id}`, status.error);
+        }
+        setStatus(id, status);
+      },
+    });
+
+    setIsBatchRunning(false);
+    batchAbortRef.current = null;
+  };
+
+  const runGeneration = async (run: GenerationRun, targets: VideoFileEntry[]) => {
+    const modeConfig = findMode(run.modeId);
+    if (!modeConfig || targets.length === 0) return;
+
+    lastRunRef.current = run;
+    const streamed = streaming && canStream(modeConfig.output);
+    const instruction = streamed && streamInstruction(modeConfig.output);
+
+    // Results are stored as soon as each video finishes; the active
+    // video's view follows from its entry.
+    const save = (
+      v: VideoFileEntry,
+      update: Partial<VideoFileEntry>,
+      fromCache: boolean,
+    ) => {
+      if (update.timecodeList && v.shotCuts?.length) {
+        update.timecodeList = snapCues(update.timecodeList, v.shotCuts);
+      }
+      setVideoFiles((prev) =>
+        prev.map((entry) =>
+          entry.id === v.id
+            ? {
+                ...entry,
+                ...update,
+                lastMode: modeConfig.id,
+                fromCache,
+                // New metadata needs another look.
+                approval: 'draft',
+                ...(modeConfig.output === 'seo' && {
+                  seoContext: run.inputs.context.trim(),
+                }),
+              }
+            : entry,
+        ),
+      );
+    };
+
+    await runBatch(targets, async (v, signal) => {
+      const prompt = buildPrompt(modeConfig, v, run.inputs).text;
+      let received = '';
+      let resp: ModelResponse;
+      const controller = new AbortController();
+      const onBatchAbort = () => controller.abort();
+      signal.addEventListener('abort', onBatchAbort, {once: true});
+      if (streamed) streamControllers.current.set(v.id, controller);
+      try {
+        resp = await generateContent(
+          instruction ? `${prompt}\n\n${instruction}` : prompt,
+          streamed ? null : modeFunctions(modeConfig),
+          v.geminiFile,
+          {
+            temperature: modeConfig.temperature,
+            signal: controller.signal,
+            usage: {mode: modeConfig.name, video: v},
+            cache: v.contentHash
+              ? {hash: v.contentHash, regenerate: run.regenerate}
+              : undefined,
+            onText: streamed
+              ? (text) => {
+                  received = text;
+                  setStreams((prev) => ({
+                    ...prev,
+                    [v.id]: {output: modeConfig.output, text},
+                  }));
+                }
+              : undefined,
+          },
+        );
+      } catch (e) {
+        // A stopped stream keeps what has arrived; the job still ends
+        // as cancelled.
+        const partial =
+          isAbortError(e) && received
+            ? partialModeResult(modeConfig, received, v.probe)
+            : null;
+        if (partial) save(v, partial, false);
+        throw e;
+      } finally {
+        signal.removeEventListener('abort', onBatchAbort);
+        if (streamControllers.current.get(v.id) === controller) {
+          streamControllers.current.delete(v.id);
+        }
+        setStreams(({[v.id]: _, ...rest}) => rest);
+      }
+      let update: Partial<VideoFileEntry>;
+      try {
+        update = parseModeResult(modeConfig, resp, v.probe, streamed);
+      } catch (e) {
+        throw new Error(describeError(e));
+      }
+      save(v, update, !!resp.cached);
+    });
+  };
+
   const onModeSelect = async (mode: string) => {
     setActiveMode(mode);
-    setIsLoading(true);
     // Clear current view
     setTimecodeList(null);
+    setChartData(null);
     setTextResponse(null);
     setCorrectionText('');
+    setCorrectionError(null);
     setSeoData({title: '', russianTitle: '', keywords: ''});
 
-    const modeConfig = modes[mode];
-    const isTextMode = modeConfig.isText;
-    let basePrompt = modeConfig.prompt;
+    const targets = generationTargets();
 
-    // Append additional text if present
-    if (additionalText.trim()) {
-      basePrompt += `\n\nВАЖНО: При генерации обязательно учти следующий контекст или ключевые слова: "${additionalText}"`;
-    }
+    setAdditionalText(''); 
+    setApplyToAll(false);
+    scrollRef.current?.scrollTo({top: 0});
 
-    // Identify target videos
-    const targets = applyToAll 
-      ? videoFiles.filter(v => v.geminiFile) 
-      : videoFiles.filter(v => v.id === activeVideoId && v.geminiFile);
+    await runGeneration(
+      {modeId: mode, inputs: {...promptInputs, context: additionalText}},
+      targets,
+    );
+  };
 
-    if (targets.length === 0) {
-      setIsLoading(false);
-      return;
+  const retryFailed = () => {
+    const failed = videoFiles.filter(
+      (v) =>
+        v.geminiFile &&
+        ['failed', 'cancelled'].includes(jobStatus[v.id]?.state),
+    );
+    if (lastRunRef.current) runGeneration(lastRunRef.current, failed);
+  };
+
+  const cancelBatch = () => batchAbortRef.current?.abort();
+
+  const stopStream = (id: string) => streamControllers.current.get(id)?.abort();
+
+  const setApproval = (ids: string[], approval: ApprovalState) =>
+    setVideoFiles((prev) =>
+      prev.map((v) => (ids.includes(v.id) ? {...v, approval} : v)),
+    );
+
+  const regenerateVideos = (ids: string[]) =>
+    runGeneration(
+      {
+        modeId: selectedMode,
+        inputs: {...promptInputs, context: additionalText},
+        regenerate: true,
+      },
+      videoFiles.filter((v) => ids.includes(v.id) && v.geminiFile),
+    );
+
+  const exportSelected = (ids: string[], agencyId: AgencyId) => {
+    setStockExportIds(ids);
+    setStockExportAgency(agencyId);
+  };
+
+  const handleVariantsChange = (next: CompareVariant[]) => {
+    setCompareVariants(next);
+    saveVariants(next);
+  };
+
+  const openCompare = (ids: string[]) => {
+    if (compareVariants.length === 0) {
+      handleVariantsChange([newVariant(MODE_SEO), newVariant(MODE_SEO)]);
     }
+    setCompareIds(ids);
+  };
 
-    try {
-      // Process all targets in parallel
-      const results = await Promise.all(targets.map(async (v) => {
-        try {
-          const resp = await generateContent(
-            basePrompt,
-            isTextMode ? null : functions({
-              set_timecodes: (args) => args // Return args to be handled later
-            }),
-            v.geminiFile,
-          );
-          return { id: v.id, resp, success: true };
-        } catch (e) {
-          console.error(`Error processing ${v.name}`, e);
-          return { id: v.id, success: false, error: (e as Error).message };
-        }
-      }));
+  // Every video through every variant. Results stay in the dialog until one
+  // is picked for the video.
+  const runComparison = () => {
+    const inputs = {...promptInputs, context: additionalText};
+    const jobs = videoFiles
+      .filter((v) => compareIds?.includes(v.id) && v.geminiFile)
+      .flatMap((video) =>
+        compareVariants.map((variant) => ({
+          id: compareJobId(video.id, variant),
+          video,
+          variant,
+        })),
+      );
 
-      // Update state with results
-      setVideoFiles(prev => prev.map(v => {
-        const res = results.find(r => r.id === v.id);
-        if (res && res.success) {
-          if (isTextMode) {
-             const parsed = parseSeoResponse(res.resp.text);
-             return { ...v, textResponse: res.resp.text, seoData: parsed };
-          } else {
-             const call = res.resp.functionCalls?.[0];
-             if (call && call.name === 'set_timecodes') {
-                const timecodes = call.args.timecodes.map((t: any) => ({...t, text: t.text.replaceAll("\\'", "'")}));
-                return { ...v, timecodeList: timecodes };
-             }
-          }
-        }
-        return v;
+    return runBatch<(typeof jobs)[number]>(jobs, async (job, signal) => {
+      const {id, video, variant} = job;
+      const modeConfig = findMode(variant.modeId);
+      if (!modeConfig) throw new Error('Режим варианта удалён.');
+      const resp = await generateContent(
+        buildPrompt(modeConfig, video, inputs).text,
+        modeFunctions(modeConfig),
+        video.geminiFile,
+        {
+          temperature: variant.temperature ?? modeConfig.temperature,
+          model: variant.model || undefined,
+          signal,
+          usage: {mode: `Сравнение: ${modeConfig.name}`, video},
+          cache: video.contentHash ? {hash: video.contentHash} : undefined,
+        },
+      );
+      let seoData: SeoData;
+      try {
+        seoData = seoDataFromResponse(resp);
+      } catch (e) {
+        throw new Error(describeError(e));
+      }
+      setCompareResults((prev) => ({
+        ...prev,
+        [id]: {seoData, context: inputs.context.trim(), cached: !!resp.cached},
       }));
+    });
+  };
 
-      // Update active view if the active video was processed
-      const activeResult = results.find(r => r.id === activeVideoId);
-      if (activeResult) {
-        if (activeResult.success) {
-           if (isTextMode) {
-             setTextResponse(activeResult.resp.text);
-             // seoData updated by useEffect
-           } else {
-             const call = activeResult.resp.functionCalls?.[0];
-             if (call && call.name === 'set_timecodes') {
-               const timecodes = call.args.timecodes.map((t: any) => ({...t, text: t.text.replaceAll("\\'", "'")}));
-               setTimecodeList(timecodes);
-             } else {
-               setTextResponse('Ошибка: Некорректный ответ модели.');
-             }
-           }
-        } else {
-          setTextResponse(`Ошибка: ${activeResult.error}`);
-        }
+  const pickCompareWinner = (videoId: string, variant: CompareVariant) => {
+    const result = compareResults[compareJobId(videoId, variant)];
+    if (!result) return;
+    setVideoFiles((prev) =>
+      prev.map((v) =>
+        v.id === videoId
+          ? {
+              ...v,
+              seoData: result.seoData,
+              textResponse: formatSeoText(result.seoData),
+              seoContext: result.context,
+              lastMode: variant.modeId,
+              fromCache: false,
+              approval: 'draft',
+            }
+          : v,
+      ),
+    );
+  };
+
+  const closeStockExport = () => {
+    setStockExportAgency(null);
+    setStockExportIds(null);
+  };
+
+  // Reruns the active video's last mode past the response cache, with the
+  // inputs of the last run when it was that mode.
+  const regenerate = () => {
+    const modeId = activeVideo?.lastMode;
+    if (!modeId) return;
+    const inputs =
+      lastRunRef.current?.modeId === modeId
+        ? lastRunRef.current.inputs
+        : {...promptInputs, context: activeVideo.seoContext || ''};
+    runGeneration({modeId, inputs, regenerate: true}, [activeVideo]);
+  };
+
+  const updateSegments = (
+    id: string,
+    update: (segments: VideoSegment[]) => VideoSegment[],
+  ) =>
+    setVideoFiles((prev) =>
+      prev.map((v) =>
+        v.id === id ? {...v, segments: update(v.segments || [])} : v,
+      ),
+    );
+
+  // SEO for each segment of the video, with the model seeing only that
+  // range. Uses the selected mode when it writes SEO, the default one
+  // otherwise.
+  const generateSegments = (video: VideoFileEntry) => {
+    const modeConfig =
+      selectedModeConfig?.output === 'seo'
+        ? selectedModeConfig
+        : findMode(MODE_SEO);
+    const inputs = {...promptInputs, context: additionalText};
+    if (!modeConfig || !video.geminiFile) return;
+
+    return runBatch(video.segments || [], async (segment, signal) => {
+      const clipped = {
+        ...video,
+        probe: segmentProbe(video.probe, segment),
+        shotCuts: undefined,
+      };
+      const resp = await generateContent(
+        buildPrompt(modeConfig, clipped, inputs).text,
+        modeFunctions(modeConfig),
+        video.geminiFile,
+        {
+          temperature: modeConfig.temperature,
+          signal,
+          usage: {mode: modeConfig.name, video},
+          cache: video.contentHash ? {hash: video.contentHash} : undefined,
+          clip: {start: segment.start, end: segment.end},
+        },
+      );
+      let seoData: SeoData;
+      try {
+        seoData = seoDataFromResponse(resp);
+      } catch (e) {
+        throw new Error(describeError(e));
       }
+      updateSegments(video.id, (segments) =>
+        segments.map((s) =>
+          s.id === segment.id
+            ? {...s, seoData, seoContext: inputs.context.trim()}
+            : s,
+        ),
+      );
+    });
+  };
+
+  const updateSeoData = (next: SeoData) => {
+    const text = formatSeoText(next);
+    setSeoData(next);
+    setTextResponse(text);
+    setVideoFiles((prev) =>
+      prev.map((v) =>
+        v.id === activeVideoId ? {...v, textResponse: text, seoData: next} : v,
+      ),
+    );
+  };
+
+  const keywordViolations = useMemo(
+    () =>
+      isSeoView && (seoData.title || seoData.keywords)
+        ? checkKeywordRules(
+            seoData,
+            activeVideo?.seoContext,
+            activeVideo?.probe,
+          )
+        : [],
+    [isSeoView, seoData, activeVideo?.seoContext, activeVideo?.probe],
+  );
+
+  const handleKeywordFix = (rules?: KeywordRule[]) =>
+    updateSeoData(
+      fixKeywordRules(
+        seoData,
+        activeVideo?.seoContext,
+        rules,
+        activeVideo?.probe,
+      ),
+    );
+
+  const handleCorrection = () => requestCorrection(correctionText);
+
+  const updateClassification = (classification: StockClassification) =>
+    setVideoFiles((prev) =>
+      prev.map((v) => (v.id === activeVideoId ? {...v, classification} : v)),
+    );
+
+  const riskHits = useMemo(
+    () =>
+      isSeoView && (seoData.title || seoData.keywords)
+        ? findRiskHits(seoData, riskTerms)
+        : [],
+    [isSeoView, seoData, riskTerms],
+  );
+
+  const handlePricesChange = (next: typeof prices) => {
+    setPrices(next);
+    savePrices(next);
+  };
+
+  const handleBudgetChange = (next: number) => {
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const openUsage = () => {
+    setShowUsage(true);
+    getResponseCacheStats()
+      .then(setCacheStats)
+      .catch((err) => console.error('Failed to read response cache', err));
+  };
+
+  const clearCache = () =>
+    clearResponseCache()
+      .then(() => setCacheStats({entries: 0, bytes: 0}))
+      .catch((err) => console.error('Failed to clear response cache', err));
 
+  const clearUsage = () =>
+    clearUsageRecords()
+      .then(() => setUsageRecords([]))
+      .catch((err) => console.error('Failed to clear usage', err));
+
+  const handleRiskTermsChange = (terms: string[]) => {
+    setRiskTerms(terms);
+    saveRiskTerms(terms);
+  };
+
+  // Optional second pass: asks the model what is visible in the footage.
+  const reviewRelease = async () => {
+    const targetVideo = activeVideo;
+    if (!targetVideo?.geminiFile) return;
+    setIsCorrecting(true);
+    setReviewError(null);
+    try {
+      const resp = await generateContent(
+        RELEASE_REVIEW_PROMPT,
+        functions({set_release_risks: (args) => args}),
+        targetVideo.geminiFile,
+        {usage: {mode: 'Проверка релизов', video: targetVideo}},
+      );
+      const releaseReview = releaseReviewFromResponse(resp);
+      setVideoFiles((prev) =>
+        prev.map((v) => (v.id === targetVideo.id ? {...v, releaseReview} : v)),
+      );
     } catch (error) {
-      console.error('Global generation error:', error);
-      setTextResponse('Произошла общая ошибка.');
+      console.error('Release review error', error);
+      setReviewError(describeError(error));
     } finally {
-      setIsLoading(false);
-      setAdditionalText(''); 
-      setApplyToAll(false);
-      scrollRef.current?.scrollTo({top: 0});
+      setIsCorrecting(false);
     }
   };
 
-  const handleCorrection = async () => {
-    if (!correctionText.trim()) return;
+  const handleKeywordReask = () =>
+    requestCorrection(buildRuleCorrectionPrompt(keywordViolations));
+
+  const requestCorrection = async (instruction: string) => {
+    if (!instruction.trim()) return;
     const targetVideo = videoFiles.find(v => v.id === activeVideoId);
     if (!targetVideo || !targetVideo.geminiFile) return;
 
     setIsCorrecting(true);
+    setCorrectionError(null);
     try {
-      const prompt = `Откорректируй следующие метаданные видео на основе этой инструкции: "${correctionText}".
+      const prompt = `Откорректируй следующие метаданные видео на основе этой инструкции: "${instruction}".
 
       Текущие метаданные:
       Title: ${seoData.title}
       Russian Title: ${seoData.russianTitle}
       Keywords: ${seoData.keywords}
 
-      Верни обновленные метаданные строго в следующем формате:
-      Title: [Обновленный заголовок на английском]
-      Russian Title: [Обновленный заголовок на русском]
-      Keywords: [Обновленные ключевые слова на английском, через запятую]`;
-
-      const resp = await generateContent(prompt, null, targetVideo.geminiFile);
-      const parsed = parseSeoResponse(resp.text);
-      
-      setSeoData(parsed);
-      setTextResponse(resp.text);
-      
-      // Update persistent state
-      setVideoFiles(prev => prev.map(v => 
-        v.id === activeVideoId ? { ...v, textResponse: resp.text, seoData: parsed } : v
-      ));
+      Передай обновленные метаданные целиком в set_seo_metadata.`;
 
+      const resp = await generateContent(
+        prompt,
+        functions({set_seo_metadata: (args) => args}),
+        targetVideo.geminiFile,
+        {usage: {mode: 'Корректировка', video: targetVideo}},
+      );
+      updateSeoData(seoDataFromResponse(resp));
       setCorrectionText('');
     } catch (error) {
       console.error('Correction error', error);
+      setCorrectionError(describeError(error));
     } finally {
       setIsCorrecting(false);
     }
   };
 
-  const processAndUploadFiles = async (files: File[]) => {
-    setIsUploading(true);
-    setVideoError(false);
+  // Loads an SRT or WebVTT file as the active video's cues. The previous
+  // cues stay in the undo history.
+  const handleSubtitleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !activeVideoId) return;
+    setImportError(null);
+    try {
+      const next = fromCues(parseSubtitles(await file.text()));
+      history.record(activeVideoId, activeVideo?.timecodeList || []);
+      setCueProposal(null);
+      setVideoFiles((prev) =>
+        prev.map((v) =>
+          v.id === activeVideoId
+            ? {
+                ...v,
+                timecodeList: next,
+                invalidTimecodes: [],
+                lastMode: MODE_SUBTITLES,
+              }
+            : v,
+        ),
+      );
+    } catch (error) {
+      console.error('Subtitle import error', error);
+      setImportError(describeError(error));
+    }
+  };
 
-    const filteredFiles = files.filter((f) => f.type.startsWith('video/'));
-    if (filteredFiles.length === 0) {
-      setIsUploading(false);
+  // Asks the model to fix, translate or re-time the current cues; the
+  // result is only proposed and replaces the cues once accepted.
+  const requestCueCorrection = async (instruction: string) => {
+    const targetVideo = activeVideo;
+    if (!instruction.trim() || !timecodeList || !targetVideo?.geminiFile) {
       return;
     }
 
-    const newVideoEntries: VideoFileEntry[] = filteredFiles.map((file) => ({
-      id: self.crypto.randomUUID(),
-      name: file.name,
-      url: URL.createObjectURL(file),
-      file: file,
-      geminiFile: null,
-      uploadError: null,
-    }));
+    setIsCorrecting(true);
+    setCorrectionError(null);
+    try {
+      const cues = timecodeList.map(({time, end, text}) =>
+        end ? {time, end, text} : {time, text},
+      );
+      const prompt = `Исправь субтитры этого видео по инструкции: "${instruction}". Сверяйся с речью и изображением в видео.
 
-    setVideoFiles((prev) => [...prev, ...newVideoEntries]);
+      Текущие субтитры (time — начало, end — конец):
+      ${JSON.stringify(cues, null, 1)}
 
-    if (activeVideoId === null) {
-      setActiveVideoId(newVideoEntries[0].id);
+      Передай полный исправленный список в set_timecodes в том же формате времени. Субтитры, которых инструкция не касается, оставь без изменений.`;
+
+      const resp = await generateContent(
+        prompt,
+        functions({set_timecodes: (args) => args}),
+        targetVideo.geminiFile,
+        {usage: {mode: 'Корректировка субтитров', video: targetVideo}},
+      );
+      const {timecodeList: next, invalidTimecodes} = parseModeResult(
+        findMode(MODE_SUBTITLES),
+        resp,
+        targetVideo.probe,
+      );
+      setCueProposal(next);
+      setCorrectionText('');
+      if (invalidTimecodes.length) {
+        setCorrectionError(
+          `Пропущены субтитры с нераспознанным временем: ${invalidTimecodes.join(', ')}`,
+        );
+      }
+    } catch (error) {
+      console.error('Subtitle correction error', error);
+      setCorrectionError(describeError(error));
+    } finally {
+      setIsCorrecting(false);
     }
+  };
 
-    await Promise.all(
-      newVideoEntries.map(async (videoEntry) => {
+  const acceptCueProposal = () => {
+    if (cueProposal) commitTimecodes(cueProposal);
+    setCueProposal(null);
+  };
+
+  const buildSubtitles = async (video: VideoFileEntry, format: SubtitleFormat) => {
+    const duration = video.url ? await getVideoDuration(video.url) : NaN;
+    const cues = toCues(video.timecodeList, duration);
+    return subtitleFormats[format].build(cues);
+  };
+
+  const exportSubtitles = async (format: SubtitleFormat) => {
+    if (!activeVideo?.timecodeList) return;
+    const content = await buildSubtitles(activeVideo, format);
+    downloadBlob(
+      new Blob([content], {type: subtitleFormats[format].mimeType}),
+      subtitleFileName(activeVideo.name, format),
+    );
+  };
+
+  const exportAllSubtitles = async () => {
+    const entries = [];
+    for (const video of videoFiles.filter((v) => v.timecodeList?.length)) {
+      for (const format of Object.keys(subtitleFormats) as SubtitleFormat[]) {
+        entries.push({
+          name: subtitleFileName(video.name, format),
+          data: await buildSubtitles(video, format),
+        });
+      }
+    }
+    if (entries.length === 0) return;
+    downloadBlob(await createZip(entries), 'subtitles.zip');
+  };
+
+  const embedVideos = async (targets: VideoFileEntry[]) => {
+    setEmbedError(null);
+    const entries = [];
+    const failed: string[] = [];
+    try {
+      for (const video of targets) {
         try {
-          const geminiFile = await uploadFile(videoEntry.file);
-          setVideoFiles((prev) =>
-            prev.map((v) =>
-              v.id === videoEntry.id ? {...v, geminiFile} : v,
-            ),
-          );
-        } catch (err) {
-          console.error('Upload failed for', videoEntry.name, err);
+          entries.push({
+            name: video.name,
+            data: await embedMetadata(video.file, videoMetadata(video)),
+          });
+        } catch (e) {
+          if (!(e instanceof Mp4FormatError)) throw e;
+          failed.push(`${video.name}: ${e.message}`);
+        }
+      }
+      if (entries.length === 1 && targets.length === 1) {
+        downloadBlob(entries[0].data, entries[0].name);
+      } else if (entries.length) {
+        downloadBlob(await createZip(entries), 'videos_with_metadata.zip');
+      }
+      if (failed.length) setEmbedError(failed.join('; '));
+    } catch (e) {
+      console.error('Metadata embedding failed', e);
+      setEmbedError(describeError(e));
+    }
+  };
+
+  // Probes one file at a time; each result lands on its entry when ready.
+  const probeEntries = async (entries: VideoFileEntry[]) => {
+    for (const entry of entries) {
+      try {
+        const probe = entry.probe || (await probeVideo(entry.file, entry.url));
+        const thumbnail =
+          entry.thumbnail || (await captureThumbnail(entry.url));
+        // Left unset when detection fails, so the next session retries;
+        // an empty list means the video has no cuts.
+        const shotCuts =
+          entry.shotCuts ||
+          (await detectShots(entry.url).catch((e) => {
+            console.warn('Shot detection failed for', entry.name, e);
+            return undefined;
+          }));
+        setVideoFiles((prev) =>
+          prev.map((v) =>
+            v.id === entry.id ? {...v, probe, thumbnail, shotCuts} : v,
+          ),
+        );
+      } catch (e) {
+        console.warn('Probe failed for', entry.name, e);
+      }
+    }
+  };
+
+  const uploadEntries = async (entries: VideoFileEntry[]) => {
+    if (entries.length === 0) return;
+    setIsUploading(true);
+    const setEntryUploadStatus = (id: string, status: UploadStatus | null) =>
+      setUploadStatus(({[id]: _, ...rest}) =>
+        status ? {...rest, [id]: status} : rest,
+      );
+
+    // One controller per entry so removing a tab cancels only its upload.
+    // They exist before the queue starts, so queued uploads can be
+    // cancelled too.
+    const controllers = new Map(
+      entries.map((entry) => [entry.id, new AbortController()]),
+    );
+    controllers.forEach((controller, id) =>
+      uploadControllers.current.set(id, controller),
+    );
+
+    const results = await runQueue(
+      entries,
+      async (videoEntry) => {
+        const controller = controllers.get(videoEntry.id);
+        if (controller.signal.aborted) throw abortError();
+        try {
+          setEntryUploadStatus(videoEntry.id, {stage: 'hashing', progress: 0});
+          const contentHash = await hashFile(videoEntry.file).catch((err) => {
+            console.error('Failed to hash', videoEntry.name, err);
+            return undefined;
+          });
+          setEntryUploadStatus(videoEntry.id, {stage: 'uploading', progress: 0});
+          const geminiFile = await uploadFile(videoEntry.file, {
+            signal: controller.signal,
+            hash: contentHash,
+            onProgress: (progress) =>
+              setEntryUploadStatus(videoEntry.id, {stage: 'uploading', progress}),
+            onProcessing: () =>
+              setEntryUploadStatus(videoEntry.id, {stage: 'processing', progress: 1}),
+          });
           setVideoFiles((prev) =>
             prev.map((v) =>
-              v.id === videoEntry.id
-                ? {...v, uploadError: 'Ошибка загрузки'}
-                : v,
+              v.id === videoEntry.id ? {...v, geminiFile, contentHash} : v,
             ),
           );
-          setVideoError(true);
+        } finally {
+          if (uploadControllers.current.get(videoEntry.id) === controller) {
+            uploadControllers.current.delete(videoEntry.id);
+          }
+          setEntryUploadStatus(videoEntry.id, null);
         }
-      }),
+      },
+      {concurrency},
+    );
+
+    const failed = results.flatMap((r) =>
+      r.ok === false && !isAbortError(r.error)
+        ? [{id: r.id, error: r.error as UploadError}]
+        : [],
     );
+    failed.forEach(({id, error}) => console.error('Upload failed for', id, error));
+    if (failed.length) {
+      setVideoFiles((prev) =>
+        prev.map((v) => {
+          const failure = failed.find((f) => f.id === v.id);
+          return failure ? {...v, uploadError: failure.error.message} : v;
+        }),
+      );
+      setVideoError(true);
+    }
 
     setIsUploading(false);
   };
 
+  const processAndUploadFiles = async (files: File[]) => {
+    setVideoError(false);
+
+    const filteredFiles = files.filter((f) => f.type.startsWith('video/'));
+    if (filteredFiles.length === 0) return;
+
+    // Files dropped again for restored entries that have no saved blob are
+    // attached to those entries instead of opening new tabs.
+    const reattached: VideoFileEntry[] = [];
+    const newVideoEntries: VideoFileEntry[] = [];
+    filteredFiles.forEach((file) => {
+      const restored = videoFiles.find(
+        (v) =>
+          !v.file &&
+          v.name === file.name &&
+          !reattached.some((r) => r.id === v.id),
+      );
+      const entry = {
+        ...(restored || {
+          id: self.crypto.randomUUID(),
+          name: file.name,
+          geminiFile: null,
+        }),
+        url: URL.createObjectURL(file),
+        file,
+        uploadError: null,
+      };
+      (restored ? reattached : newVideoEntries).push(entry);
+    });
+
+    setVideoFiles((prev) => [
+      ...prev.map((v) => reattached.find((r) => r.id === v.id) || v),
+      ...newVideoEntries,
+    ]);
+
+    if (activeVideoId === null) {
+      setActiveVideoId((newVideoEntries[0] || reattached[0]).id);
+    }
+
+    probeEntries([
+      ...newVideoEntries,
+      ...reattached.filter(needsProbe),
+    ]);
+
+    await uploadEntries([
+      ...newVideoEntries,
+      ...reattached.filter((v) => !v.geminiFile),
+    ]);
+  };
+
   const uploadVideo = async (e: DragEvent<HTMLElement>) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files) as File[];
@@ -402,14 +1541,18 @@ export default function App() {
   };
 
   const handleClearAll = () => {
-    videoFiles.forEach((video) => URL.revokeObjectURL(video.url));
+    uploadControllers.current.forEach((controller) => controller.abort());
+    videoFiles.forEach((video) => video.url && URL.revokeObjectURL(video.url));
     setVideoFiles([]);
     setActiveVideoId(null);
     setTimecodeList(null);
+    setChartData(null);
     setTextResponse(null);
     setRequestedTimecode(null);
     setActiveMode(undefined);
-    setIsLoading(false);
+    cancelBatch();
+    setJobStatus({});
+    setBatchIds([]);
     setVideoError(false);
     setSeoData({title: '', russianTitle: '', keywords: ''});
     setCorrectionText('');
@@ -420,7 +1563,8 @@ export default function App() {
     const videoToRemove = videoFiles.find((v) => v.id === idToRemove);
     if (!videoToRemove) return;
 
-    URL.revokeObjectURL(videoToRemove.url);
+    uploadControllers.current.get(idToRemove)?.abort();
+    if (videoToRemove.url) URL.revokeObjectURL(videoToRemove.url);
 
     const remainingVideos = videoFiles.filter((v) => v.id !== idToRemove);
 
@@ -452,10 +1596,23 @@ export default function App() {
         multiple
         style={{display: 'none'}}
       />
+      <input
+        type="file"
+        ref={subtitleInputRef}
+        onChange={handleSubtitleImport}
+        accept=".srt,.vtt,text/vtt,application/x-subrip"
+        style={{display: 'none'}}
+      />
       <section className="top">
         <div className="video-wrapper">
           {videoFiles.length > 0 && (
             <div className="video-tabs">
+              <button
+                className="button reviewTab"
+                title="Обзор всех видео"
+                onClick={() => setShowReview(true)}>
+                <span className="icon">grid_view</span>
+              </button>
               {videoFiles.map((video) => (
                 <button
                   key={video.id}
@@ -463,23 +1620,58 @@ export default function App() {
                     active: video.id === activeVideoId,
                   })}
                   onClick={() => setActiveVideoId(video.id)}>
-                  <span className="videoName" title={video.name}>
+                  <span
+                    className="videoName"
+                    title={
+                      video.probe
+                        ? `${video.name}\n${formatProbe(video.probe)}`
+                        : video.name
+                    }>
                     {video.name}
                   </span>
                   <span className="status">
+                    {video.seoData &&
+                      usageLabel(video, riskTerms) === 'editorial' && (
+                        <span
+                          className="icon editorial"
+                          title={usageLabels.editorial}>
+                          gpp_maybe
+                        </span>
+                      )}
                     {video.uploadError && (
                       <span className="error" title={video.uploadError}>
                         ⚠️
                       </span>
                     )}
-                    {!video.geminiFile && !video.uploadError && (
-                      <span className="spinner"></span>
+                    {!video.file && !video.geminiFile && !video.uploadError && (
+                      <span
+                        className="icon missing"
+                        title="Видео не сохранено — перетащите файл снова">
+                        file_upload_off
+                      </span>
+                    )}
+                    {video.file && !video.geminiFile && !video.uploadError && (
+                      <>
+                        {uploadStatus[video.id]?.stage === 'uploading' && (
+                          <span className="uploadProgress">
+                            {Math.round(uploadStatus[video.id].progress * 100)}%
+                          </span>
+                        )}
+                        <span
+                          className="spinner"
+                          title={
+                            uploadStageLabels[
+                              uploadStatus[video.id]?.stage || 'uploading'
+                            ]
+                          }></span>
+                      </>
                     )}
                     {video.geminiFile && !video.uploadError && (
                       <span className="icon success" title="Загрузка завершена">
                         check
                       </span>
                     )}
+                    <JobStateIcon status={jobStatus[video.id]} />
                   </span>
                   <button
                     className="delete-video"
@@ -497,13 +1689,33 @@ export default function App() {
           <VideoPlayer
             url={vidUrl}
             requestedTimecode={requestedTimecode}
-            timecodeList={timecodeList}
+            timecodeList={chartData || timecodeList}
+            cuts={activeVideo?.shotCuts}
+            segments={activeVideo?.segments}
+            onAddSegment={
+              activeVideo
+                ? (start, end) =>
+                    updateSegments(activeVideo.id, (segments) =>
+                      addSegment(segments, start, end),
+                    )
+                : undefined
+            }
             jumpToTimecode={setRequestedTimecode}
+            onTimeUpdate={(secs) => (playheadRef.current = secs)}
+            onRetime={
+              timecodeList
+                ? (index, secs) =>
+                    commitTimecodes(retimeCue(timecodeList, index, secs))
+                : undefined
+            }
             isLoadingVideo={isUploading}
             videoError={videoError}
             onUploadClick={handleUploadClick}
             onClearAll={handleClearAll}
             hasVideos={videoFiles.length > 0}
+            missingFileName={activeVideo && !activeVideo.file ? activeVideo.name : null}
+            keepBlobs={keepBlobs}
+            onKeepBlobsChange={handleKeepBlobsChange}
           />
         </div>
 
@@ -517,32 +1729,101 @@ export default function App() {
               </span>
             </button>
             <div className={c('modeSelector', {hide: !showSidebar})}>
-              {file && ( // Only show analysis tools if active video is processed
+              <div>
+                <ProviderSelector
+                  settings={providerSettings}
+                  onChange={handleProviderChange}
+                />
+              </div>
+              {showModeManager && (
+                <div>
+                  <ModeManager
+                    builtInModes={builtInModes}
+                    customModes={customModes}
+                    onChange={handleCustomModesChange}
+                    onClose={() => setShowModeManager(false)}
+                  />
+                </div>
+              )}
+              {file && !showModeManager && ( // Only show analysis tools if active video is processed
                 <>
                   <div>
-                    <h2>Анализировать видео с помощью:</h2>
+                    <div className="modeListHeader">
+                      <h2>Анализировать видео с помощью:</h2>
+                      <div>
+                        <button
+                          title="Сравнить варианты SEO-промптов"
+                          disabled={videoFiles.length === 0}
+                          onClick={() =>
+                            openCompare(generationTargets().map((v) => v.id))
+                          }>
+                          <span className="icon">compare</span>
+                        </button>
+                        <button
+                          title="Расход токенов"
+                          onClick={openUsage}>
+                          <span className="icon">payments</span>
+                        </button>
+                        <button
+                          title="Управление режимами"
+                          onClick={() => setShowModeManager(true)}>
+                          <span className="icon">tune</span>
+                        </button>
+                      </div>
+                    </div>
                     <div className="modeList">
-                      {Object.entries(modes).map(([mode, {emoji}]) => (
+                      {allModes.map(({id, name, emoji}) => (
                         <button
-                          key={mode}
+                          key={id}
                           className={c('button', {
-                            active: mode === selectedMode,
+                            active: id === selectedMode,
                           })}
-                          onClick={() => setSelectedMode(mode)}>
-                          <span className="emoji">{emoji}</span> {mode}
+                          onClick={() => setSelectedMode(id)}>
+                          <span className="emoji">{emoji}</span> {name}
                         </button>
                       ))}
                     </div>
-                    {selectedMode === MODE_SEO && (
+                    {(selectedModeConfig?.output === 'seo' ||
+                      selectedVariables.some((name) =>
+                        (inputVariables as string[]).includes(name),
+                      )) && (
                       <div className="additionalOptions">
-                        <textarea 
-                          className="additionalInput"
-                          placeholder="Доп. контекст (например: 'летнее настроение')"
-                          rows={2}
-                          value={additionalText}
-                          onChange={(e) => setAdditionalText(e.target.value)}
-                        />
-                         <label className="checkboxLabel">
+                        {(selectedModeConfig.output === 'seo' ||
+                          selectedVariables.includes('context')) && (
+                          <textarea
+                            className="additionalInput"
+                            placeholder="Доп. контекст (например: 'летнее настроение')"
+                            rows={2}
+                            value={additionalText}
+                            onChange={(e) => setAdditionalText(e.target.value)}
+                          />
+                        )}
+                        {selectedVariables.includes('language') && (
+                          <input
+                            type="text"
+                            className="additionalInput"
+                            placeholder="Целевой язык (например: английский)"
+                            value={promptInputs.language}
+                            onChange={(e) =>
+                              handlePromptInputChange('language', e.target.value)
+                            }
+                          />
+                        )}
+                        {selectedVariables.includes('collection') && (
+                          <input
+                            type="text"
+                            className="additionalInput"
+                            placeholder="Название коллекции"
+                            value={promptInputs.collection}
+                            onChange={(e) =>
+                              handlePromptInputChange(
+                                'collection',
+                                e.target.value,
+                              )
+                            }
+                          />
+                        )}
+                        <label className="checkboxLabel">
                           <input 
                             type="checkbox" 
                             checked={applyToAll}
@@ -552,13 +1833,78 @@ export default function App() {
                         </label>
                       </div>
                     )}
+                    {promptPreview && (
+                      <details className="promptPreview">
+                        <summary>Промпт для «{activeVideo?.name}»</summary>
+                        <pre>{promptPreview.text}</pre>
+                        {promptPreview.missing.length > 0 && (
+                          <div className="promptMissing">
+                            Без значений (строки пропущены):{' '}
+                            {promptPreview.missing.join(', ')}
+                          </div>
+                        )}
+                      </details>
+                    )}
                   </div>
-                  <div>
-                    <button
-                      className="button generateButton"
-                      onClick={() => onModeSelect(selectedMode)}>
-                      ▶️ Создать
-                    </button>
+                  {overBudget && !isBatchRunning && (
+                    <div className="budgetWarning">
+                      <span className="icon">warning</span>
+                      Сегодня потрачено {formatCost(todayCost)}, запуск ≈{' '}
+                      {formatCost(runEstimate)} — дневной бюджет{' '}
+                      {formatCost(budget)} будет превышен.
+                    </div>
+                  )}
+                  <div className="batchControls">
+                    {isBatchRunning ? (
+                      <button
+                        className="button generateButton"
+                        onClick={cancelBatch}>
+                        ⏹️ Отменить ({batchDone}/{batchIds.length})
+                      </button>
+                    ) : (
+                      <button
+                        className="button generateButton"
+                        title={
+                          runEstimate ? `≈ ${formatCost(runEstimate)}` : undefined
+                        }
+                        onClick={() => onModeSelect(selectedMode)}>
+                        {overBudget ? '⚠️ Создать сверх бюджета' : '▶️ Создать'}
+                      </button>
+                    )}
+                    {!isBatchRunning && failedCount > 0 && (
+                      <button className="button retryButton" onClick={retryFailed}>
+                        <span className="icon">refresh</span> Повторить
+                        неудачные ({failedCount})
+                      </button>
+                    )}
+                    <label
+                      className="checkboxLabel"
+                      title="Текстовые, SEO и субтитры показываются по мере ответа модели. SEO и субтитры тогда разбираются из текста, без вызова функции.">
+                      <input
+                        type="checkbox"
+                        checked={streaming}
+                        onChange={(e) => {
+                          setStreaming(e.target.checked);
+                          setStreamingState(e.target.checked);
+                        }}
+                      />
+                      <span>Потоковый вывод</span>
+                    </label>
+                    <label className="checkboxLabel">
+                      <span>Параллельно:</span>
+                      <input
+                        type="number"
+                        className="concurrencyInput"
+                        min={1}
+                        max={20}
+                        value={concurrency}
+                        onChange={(e) => {
+                          const value = Math.max(1, e.target.valueAsNumber || 1);
+                          setConcurrency(value);
+                          setConcurrencyState(value);
+                        }}
+                      />
+                    </label>
                   </div>
                 </>
               )}
@@ -567,16 +1913,147 @@ export default function App() {
         )}
       </section>
 
-      <div className={c('tools', {inactive: !vidUrl})}>
+      <div className={c('tools', {inactive: !activeVideo})}>
         <section
           className={c('output', {['mode' + activeMode]: activeMode})}
           ref={scrollRef}>
-          {isLoading ? (
+          {activeJob?.state === 'failed' && (
+            <div className="jobError">
+              Ошибка: {activeJob.error}
+            </div>
+          )}
+          {importError && (
+            <div className="jobError">
+              Не удалось импортировать субтитры: {importError}
+            </div>
+          )}
+          {exportError && (
+            <div className="jobError">
+              Не удалось экспортировать: {exportError}
+            </div>
+          )}
+          {activeVideo?.fromCache && !isLoading && (
+            <div className="cacheBadge">
+              <span className="icon">cached</span>
+              <span>
+                Из кэша: «{findMode(activeVideo.lastMode)?.name}» — модель не
+                вызывалась
+              </span>
+              <button
+                className="button"
+                disabled={isBatchRunning || !activeVideo.geminiFile}
+                onClick={regenerate}>
+                <span className="icon">refresh</span> Сгенерировать заново
+              </button>
+            </div>
+          )}
+          {activeVideo &&
+            (activeVideo.segments?.length > 0 ||
+              activeVideo.shotCuts?.length > 0) && (
+              <SegmentPanel
+                segments={activeVideo.segments || []}
+                jobStatus={jobStatus}
+                canDetect={
+                  activeVideo.shotCuts?.length > 0 && !!activeVideo.probe
+                }
+                canGenerate={!!activeVideo.geminiFile && !isBatchRunning}
+                onSeek={setRequestedTimecode}
+                onRemove={(id) =>
+                  updateSegments(activeVideo.id, (segments) =>
+                    segments.filter((s) => s.id !== id),
+                  )
+                }
+                onFromCuts={() =>
+                  updateSegments(activeVideo.id, (segments) =>
+                    segmentsFromCuts(
+                      segments,
+                      activeVideo.shotCuts,
+                      activeVideo.probe.duration,
+                    ),
+                  )
+                }
+                onGenerate={() => generateSegments(activeVideo)}
+                onClear={() => updateSegments(activeVideo.id, () => [])}
+              />
+            )}
+          {isLoading && streams[activeVideoId] ? (
+            <StreamingOutput
+              output={streams[activeVideoId].output}
+              text={streams[activeVideoId].text}
+              onStop={() => stopStream(activeVideoId)}
+            />
+          ) : isLoading ? (
             <div className="loading">
-              Ожидание модели<span>...</span>
+              {activeJob.state === 'queued'
+                ? 'В очереди'
+                : activeJob.attempt > 1
+                  ? `Повтор (попытка ${activeJob.attempt})`
+                  : 'Ожидание модели'}
+              <span>...</span>
             </div>
-          ) : textResponse && activeMode === MODE_SEO ? (
+          ) : textResponse &&
+            isSeoView &&
+            (seoData.title || seoData.keywords) ? (
             <div className="seoOutput">
+              <div className="outputToolbar">
+                <ExportMenu
+                  onError={(e) => setExportError(e ? describeError(e) : null)}
+                  groups={[
+                    {
+                      title: 'Видео с метаданными',
+                      actions: [
+                        {
+                          label: 'Текущее видео',
+                          onClick: () => embedVideos([activeVideo]),
+                          disabled: !canEmbedMetadata(activeVideo?.file),
+                        },
+                        {
+                          label: 'Все видео (ZIP)',
+                          onClick: () =>
+                            embedVideos(
+                              videoFiles.filter(
+                                (v) => hasSeoData(v) && canEmbedMetadata(v.file),
+                              ),
+                            ),
+                          disabled: !videoFiles.some(
+                            (v) => hasSeoData(v) && canEmbedMetadata(v.file),
+                          ),
+                        },
+                      ],
+                    },
+                    {
+                      title: 'Все поля',
+                      actions: [
+                        {
+                          label: 'CSV (все видео)',
+                          onClick: () =>
+                            downloadBlob(
+                              new Blob(
+                                [
+                                  buildMetadataCsv(
+                                    withSegments(videoFiles),
+                                    (v) => usageLabel(v, riskTerms),
+                                  ),
+                                ],
+                                {type: 'text/csv'},
+                              ),
+                              'metadata.csv',
+                            ),
+                        },
+                      ],
+                    },
+                    {
+                      title: 'CSV для стоков (все видео)',
+                      actions: (Object.keys(agencies) as AgencyId[]).map(
+                        (id) => ({
+                          label: agencies[id].label,
+                          onClick: () => setStockExportAgency(id),
+                        }),
+                      ),
+                    },
+                  ]}
+                />
+              </div>
               <div className="correctionSection">
                 <input
                   type="text"
@@ -598,6 +2075,44 @@ export default function App() {
                   )}
                 </button>
               </div>
+              {embedError && (
+                <div className="seoError">
+                  Не удалось записать метаданные: {embedError}
+                </div>
+              )}
+              {correctionError && (
+                <div className="seoError">Ошибка: {correctionError}</div>
+              )}
+              <KeywordReport
+                violations={keywordViolations}
+                onFix={handleKeywordFix}
+                onReask={handleKeywordReask}
+                disabled={isCorrecting}
+              />
+              <RiskReport
+                label={usageLabel(
+                  {seoData, releaseReview: activeVideo?.releaseReview},
+                  riskTerms,
+                )}
+                hits={riskHits}
+                title={seoData.title}
+                keywords={seoData.keywords}
+                review={activeVideo?.releaseReview}
+                reviewError={reviewError}
+                terms={riskTerms}
+                onRemove={(terms) =>
+                  updateSeoData(removeRiskTerms(seoData, terms))
+                }
+                onReview={reviewRelease}
+                onTermsChange={handleRiskTermsChange}
+                disabled={isCorrecting}
+              />
+              {activeVideo?.classification && (
+                <ClassificationPanel
+                  classification={activeVideo.classification}
+                  onChange={updateClassification}
+                />
+              )}
               {seoData.title && (
                 <div className="seoSection">
                   <h3>Заголовок</h3>
@@ -662,23 +2177,188 @@ export default function App() {
                 </div>
               )}
             </div>
+          ) : findMode(activeMode)?.output === 'classification' &&
+            activeVideo?.classification ? (
+            <div className="classificationOutput">
+              <ClassificationPanel
+                classification={activeVideo.classification}
+                onChange={updateClassification}
+              />
+            </div>
+          ) : chartData ? (
+            <div className="chartOutput">
+              <InvalidTimecodes times={activeVideo?.invalidTimecodes} />
+              <Chart
+                data={chartData}
+                yLabel={findMode(activeMode)?.name}
+                jumpToTimecode={setRequestedTimecode}
+              />
+            </div>
           ) : textResponse ? (
             <div className="textOutput">{textResponse}</div>
           ) : timecodeList ? (
-            <ul>
-              {timecodeList.map(({time, text}, i) => (
-                <li key={i} className="outputItem">
+            <>
+              <div className="correctionSection">
+                <input
+                  type="text"
+                  className="correctionInput"
+                  placeholder="Исправить, перевести или сдвинуть субтитры..."
+                  value={correctionText}
+                  onChange={(e) => setCorrectionText(e.target.value)}
+                  onKeyDown={(e) =>
+                    e.key === 'Enter' && requestCueCorrection(correctionText)
+                  }
+                  disabled={isCorrecting || !!cueProposal}
+                />
+                <button
+                  className="correctionButton"
+                  onClick={() => requestCueCorrection(correctionText)}
+                  disabled={
+                    isCorrecting ||
+                    !!cueProposal ||
+                    !correctionText.trim() ||
+                    !activeVideo.geminiFile
+                  }>
+                  {isCorrecting ? (
+                    <span className="spinner"></span>
+                  ) : (
+                    <span className="icon">auto_fix</span>
+                  )}
+                </button>
+              </div>
+              {correctionError && (
+                <div className="seoError">Ошибка: {correctionError}</div>
+              )}
+              <InvalidTimecodes times={activeVideo?.invalidTimecodes} />
+              {cueProposal ? (
+                <CueDiff
+                  before={timecodeList}
+                  after={cueProposal}
+                  onAccept={acceptCueProposal}
+                  onReject={() => setCueProposal(null)}
+                />
+              ) : (
+                <TimecodeEditor
+                  timecodeList={timecodeList}
+                  onChange={commitTimecodes}
+                  onSeek={setRequestedTimecode}
+                  getPlayhead={() => playheadRef.current}
+                  canUndo={history.canUndo(activeVideoId)}
+                  canRedo={history.canRedo(activeVideoId)}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}>
                   <button
-                    onClick={() => setRequestedTimecode(timeToSecs(time))}>
-                    <time>{time}</time>
-                    <p className="text">{text}</p>
+                    className="button"
+                    title="Заменить субтитры файлом SRT или WebVTT"
+                    onClick={() => subtitleInputRef.current?.click()}>
+                    <span className="icon">upload_file</span> Импорт
                   </button>
-                </li>
-              ))}
-            </ul>
+                  <ExportMenu
+                    onError={(e) =>
+                      setExportError(e ? describeError(e) : null)
+                    }
+                    groups={[
+                      {
+                        title: 'Текущее видео',
+                        actions: (
+                          Object.keys(subtitleFormats) as SubtitleFormat[]
+                        ).map((format) => ({
+                          label: subtitleFormats[format].label,
+                          onClick: () => exportSubtitles(format),
+                        })),
+                      },
+                      {
+                        title: 'Все видео',
+                        actions: [
+                          {
+                            label: 'ZIP (SRT + WebVTT + Текст)',
+                            onClick: exportAllSubtitles,
+                            disabled: !videoFiles.some(
+                              (v) => v.timecodeList?.length,
+                            ),
+                          },
+                        ],
+                      },
+                    ]}
+                  />
+                </TimecodeEditor>
+              )}
+            </>
+          ) : activeVideo ? (
+            <div className="emptyOutput">
+              <button
+                className="button"
+                onClick={() => subtitleInputRef.current?.click()}>
+                <span className="icon">upload_file</span> Импортировать
+                субтитры (SRT, WebVTT)
+              </button>
+            </div>
           ) : null}
         </section>
       </div>
+      {showReview && (
+        <ReviewGrid
+          videos={videoFiles}
+          jobStatus={jobStatus}
+          riskTerms={riskTerms}
+          activeVideoId={activeVideoId}
+          regenerateLabel={`Заново: ${selectedModeConfig?.name || ''}`}
+          isRunning={isBatchRunning}
+          onOpen={(id) => {
+            setActiveVideoId(id);
+            setShowReview(false);
+          }}
+          onSetApproval={setApproval}
+          onRegenerate={regenerateVideos}
+          onCompare={(ids) => {
+            setShowReview(false);
+            openCompare(ids);
+          }}
+          onExport={exportSelected}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+      {stockExportAgency && (
+        <StockExportDialog
+          agencyId={stockExportAgency}
+          videos={withSegments(
+            stockExportIds
+              ? videoFiles.filter((v) => stockExportIds.includes(v.id))
+              : videoFiles,
+          )}
+          riskTerms={riskTerms}
+          onExported={(ids) => setApproval(ids, 'exported')}
+          onClose={closeStockExport}
+        />
+      )}
+      {compareIds && (
+        <CompareDialog
+          videos={videoFiles.filter((v) => compareIds.includes(v.id))}
+          modes={allModes.filter((m) => m.output === 'seo')}
+          variants={compareVariants}
+          results={compareResults}
+          jobStatus={jobStatus}
+          defaultModel={getProvider().model}
+          isRunning={isBatchRunning}
+          onVariantsChange={handleVariantsChange}
+          onRun={runComparison}
+          onPick={pickCompareWinner}
+          onClose={() => setCompareIds(null)}
+        />
+      )}
+      {showUsage && (
+        <UsagePanel
+          records={usageRecords}
+          prices={prices}
+          budget={budget}
+          onPricesChange={handlePricesChange}
+          onBudgetChange={handleBudgetChange}
+          onClear={clearUsage}
+          cacheStats={cacheStats}
+          onClearCache={clearCache}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
     </main>
   );
 }
\ No newline at end of file
@@ -21,7 +21,7 @@ import {max, min} from 'd3-array';
 import {scaleBand, scaleLinear} from 'd3-scale';
 import {line} from 'd3-shape';
 import {useEffect, useRef, useState} from 'react';
-import {timeToSecs} from './utils';
+import {timeToSecs} from './timecode';
 
 export default function Chart({data, yLabel, jumpToTimecode}) {
   const chartRef = useRef();
@@ -97,7 +97,11 @@ export default function Chart({data, yLabel, jumpToTimecode}) {
       <g>
         {data.map(({time, value}, i) => {
           return (
-            <g key={i} className="dataPoint">
+            <g
+              key={i}
+              className="dataPoint"
+              role="button"
+              onClick={() => jumpToTimecode(timeToSecs(time))}>
               <circle cx={xScale(time)} cy={yScale(value)} r={4} />
 
               <text x={xScale(time)} y={yScale(value) - 12}>
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  adobeCategories,
+  classificationFlags,
+  shutterstockCategory,
+} from './classification';
+import {StockClassification} from './types';
+
+export default function ClassificationPanel({
+  classification,
+  onChange,
+}: {
+  classification: StockClassification;
+  onChange: (next: StockClassification) => void;
+}) {
+  return (
+    <div className="seoSection classificationPanel">
+      <h3>Категория и флаги</h3>
+      <label>
+        Категория
+        <div className="modelSelector">
+          <select
+            value={classification.category}
+            onChange={(e) =>
+              onChange({...classification, category: Number(e.target.value)})
+            }>
+            {Object.entries(adobeCategories).map(([id, name]) => (
+              <option key={id} value={id}>
+                {id}. {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <span className="classificationHint">
+          Shutterstock: {shutterstockCategory(classification.category)}
+        </span>
+      </label>
+      <div className="classificationFlags">
+        {classificationFlags.map(({key, label}) => (
+          <label key={key}>
+            {label}
+            <div className="modelSelector">
+              <select
+                value={classification[key] ? 'yes' : 'no'}
+                onChange={(e) =>
+                  onChange({...classification, [key]: e.target.value === 'yes'})
+                }>
+                <option value="yes">Да</option>
+                <option value="no">Нет</option>
+              </select>
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
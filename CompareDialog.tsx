@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {
+  CompareResult,
+  CompareVariant,
+  compareJobId,
+  diffKeywords,
+  diffWords,
+  newVariant,
+} from './compare';
+import {JobStatus} from './jobQueue';
+import JobStateIcon from './JobStateIcon.jsx';
+import {ModeEntry} from './modeStore';
+import {parseKeywords} from './stockExport';
+import {SeoData, VideoFileEntry} from './types';
+
+const sameSeo = (a?: SeoData, b?: SeoData) =>
+  !!a && !!b && a.title === b.title && a.keywords === b.keywords;
+
+function ResultCell({
+  result,
+  baseline,
+  status,
+  picked,
+  onPick,
+}: {
+  result?: CompareResult;
+  baseline?: CompareResult;
+  status?: JobStatus;
+  picked: boolean;
+  onPick: () => void;
+}) {
+  if (!result) {
+    return (
+      <div className="compareCell empty">
+        <JobStateIcon status={status} />
+        {status?.state === 'failed' ? status.error : '—'}
+      </div>
+    );
+  }
+  const {title, keywords} = result.seoData;
+  const words = baseline ? diffWords(baseline.seoData.title, title) : null;
+  const keywordDiff = baseline
+    ? diffKeywords(baseline.seoData.keywords, keywords)
+    : null;
+
+  return (
+    <div className={c('compareCell', {picked})}>
+      <p className="compareTitle">
+        {words
+          ? words.map((word, i) => (
+              <span key={i} className={word.kind}>
+                {word.text}{' '}
+              </span>
+            ))
+          : title}
+      </p>
+      <p className="compareKeywords">
+        Ключ. слов: {parseKeywords(keywords).length}
+        {keywordDiff && ` · общих: ${keywordDiff.shared}`}
+        {result.cached && ' · из кэша'}
+      </p>
+      {keywordDiff?.added.length > 0 && (
+        <p className="compareKeywordDiff added">
+          + {keywordDiff.added.join(', ')}
+        </p>
+      )}
+      {keywordDiff?.removed.length > 0 && (
+        <p className="compareKeywordDiff removed">
+          − {keywordDiff.removed.join(', ')}
+        </p>
+      )}
+      <button
+        className={c('button', {primary: picked})}
+        disabled={picked}
+        onClick={onPick}>
+        <span className="icon">{picked ? 'check' : 'emoji_events'}</span>
+        {picked ? 'Выбрано' : 'Выбрать'}
+      </button>
+    </div>
+  );
+}
+
+export default function CompareDialog({
+  videos,
+  modes,
+  variants,
+  results,
+  jobStatus,
+  defaultModel,
+  isRunning,
+  onVariantsChange,
+  onRun,
+  onPick,
+  onClose,
+}: {
+  videos: VideoFileEntry[];
+  // SEO modes to take prompts from.
+  modes: ModeEntry[];
+  variants: CompareVariant[];
+  results: Record<string, CompareResult>;
+  jobStatus: Record<string, JobStatus>;
+  defaultModel: string;
+  isRunning: boolean;
+  onVariantsChange: (variants: CompareVariant[]) => void;
+  onRun: () => void;
+  onPick: (videoId: string, variant: CompareVariant) => void;
+  onClose: () => void;
+}) {
+  const findMode = (id: string) => modes.find((m) => m.id === id);
+  const update = (id: string, patch: Partial<CompareVariant>) =>
+    onVariantsChange(
+      variants.map((v) => (v.id === id ? {...v, ...patch} : v)),
+    );
+  const label = (variant: CompareVariant, index: number) =>
+    [
+      `${index + 1}. ${findMode(variant.modeId)?.name || variant.modeId}`,
+      variant.model,
+      variant.temperature !== null && `t=${variant.temperature}`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  const canRun =
+    variants.length >= 2 &&
+    variants.every((v) => findMode(v.modeId)) &&
+    videos.some((v) => v.geminiFile) &&
+    !isRunning;
+
+  return (
+    <div className="dialogBackdrop" onClick={onClose}>
+      <div
+        className="dialog compareDialog"
+        onClick={(e) => e.stopPropagation()}>
+        <h2>Сравнение вариантов ({videos.length} видео)</h2>
+
+        <table className="stockRows compareVariants">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Режим (промпт)</th>
+              <th>Модель</th>
+              <th>Температура</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {variants.map((variant, i) => (
+              <tr key={variant.id}>
+                <td>{i === 0 ? 'База' : i + 1}</td>
+                <td>
+                  <div className="modelSelector">
+                    <select
+                      value={variant.modeId}
+                      onChange={(e) =>
+                        update(variant.id, {modeId: e.target.value})
+                      }>
+                      {!findMode(variant.modeId) && (
+                        <option value={variant.modeId}>
+                          {variant.modeId} (удалён)
+                        </option>
+                      )}
+                      {modes.map((mode) => (
+                        <option key={mode.id} value={mode.id}>
+                          {mode.emoji} {mode.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    placeholder={defaultModel}
+                    value={variant.model}
+                    onChange={(e) =>
+                      update(variant.id, {model: e.target.value.trim()})
+                    }
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    placeholder={String(
+                      findMode(variant.modeId)?.temperature ?? '',
+                    )}
+                    value={variant.temperature ?? ''}
+                    onChange={(e) =>
+                      update(variant.id, {
+                        temperature: Number.isFinite(e.target.valueAsNumber)
+                          ? Math.min(2, Math.max(0, e.target.valueAsNumber))
+                          : null,
+                      })
+                    }
+                  />
+                </td>
+                <td>
+                  <button
+                    className="button"
+                    title="Удалить вариант"
+                    onClick={() =>
+                      onVariantsChange(variants.filter((v) => v !== variant))
+                    }>
+                    <span className="icon">delete</span>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="compareActions">
+          <button
+            className="button"
+            disabled={modes.length === 0}
+            onClick={() =>
+              onVariantsChange([
+                ...variants,
+                newVariant(
+                  variants[variants.length - 1]?.modeId || modes[0].id,
+                ),
+              ])
+            }>
+            <span className="icon">add</span> Добавить вариант
+          </button>
+          <button
+            className="button primary"
+            disabled={!canRun}
+            onClick={onRun}>
+            <span className="icon">play_arrow</span> Запустить
+          </button>
+          {variants.length < 2 && <span>Нужно хотя бы два варианта.</span>}
+        </div>
+
+        {videos.map((video) => (
+          <div key={video.id} className="compareVideo">
+            <h3>{video.name}</h3>
+            <div
+              className="compareGrid"
+              style={{gridTemplateColumns: `repeat(${variants.length}, 1fr)`}}>
+              {variants.map((variant, i) => (
+                <div key={variant.id} className="compareColumnLabel">
+                  {label(variant, i)}
+                </div>
+              ))}
+              {variants.map((variant, i) => (
+                <div key={variant.id}>
+                  <ResultCell
+                    result={results[compareJobId(video.id, variant)]}
+                    baseline={
+                      i > 0
+                        ? results[compareJobId(video.id, variants[0])]
+                        : undefined
+                    }
+                    status={jobStatus[compareJobId(video.id, variant)]}
+                    picked={sameSeo(
+                      results[compareJobId(video.id, variant)]?.seoData,
+                      video.seoData,
+                    )}
+                    onPick={() => onPick(video.id, variant)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="dialogActions">
+          <button className="button primary" onClick={onClose}>
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
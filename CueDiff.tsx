@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {useMemo, useState} from 'react';
+import {countChanges, diffCues} from './cueChanges';
+import {TimecodeItem} from './cueEdits';
+
+export default function CueDiff({
+  before,
+  after,
+  onAccept,
+  onReject,
+}: {
+  before: TimecodeItem[];
+  after: TimecodeItem[];
+  onAccept: () => void;
+  onReject: () => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const changes = useMemo(() => diffCues(before, after), [before, after]);
+  const changed = countChanges(changes);
+  const visible = showAll
+    ? changes
+    : changes.filter((change) => change.kind !== 'same');
+
+  return (
+    <div className="cueDiff">
+      <div className="outputToolbar cueDiffToolbar">
+        <span>
+          Предложено изменений: {changed} из {changes.length}
+        </span>
+        <label className="checkboxLabel">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+          />
+          <span>Показать без изменений</span>
+        </label>
+        <button className="button" onClick={onReject}>
+          <span className="icon">close</span> Отклонить
+        </button>
+        <button className="button primary" onClick={onAccept}>
+          <span className="icon">check</span> Принять
+        </button>
+      </div>
+      {changed === 0 && <p>Модель не изменила субтитры.</p>}
+      <ul>
+        {visible.map(({kind, before, after}, i) => (
+          <li key={i} className={c('outputItem', 'cueDiffRow', kind)}>
+            <time>
+              {before && after && before.time !== after.time ? (
+                <>
+                  <del>{before.time}</del> {after.time}
+                </>
+              ) : (
+                (after || before).time
+              )}
+            </time>
+            <div>
+              {before && (!after || before.text !== after.text) && (
+                <del>{before.text}</del>
+              )}
+              {after &&
+                (before && before.text === after.text ? (
+                  <span>{after.text}</span>
+                ) : (
+                  <ins>{after.text}</ins>
+                ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
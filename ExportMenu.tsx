@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {useEffect, useRef, useState} from 'react';
+
+export interface ExportAction {
+  label: string;
+  onClick: () => void | Promise<void>;
+  disabled?: boolean;
+}
+
+export default function ExportMenu({
+  label = 'Экспорт',
+  groups,
+  onError,
+}: {
+  label?: string;
+  groups: {title: string; actions: ExportAction[]}[];
+  // Called with the failure of an action, and with null when one succeeds.
+  onError: (error: unknown) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    addEventListener('pointerdown', onPointerDown);
+    return () => removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const run = async (action: ExportAction) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      await action.onClick();
+      onError(null);
+    } catch (error) {
+      console.error('Export failed', error);
+      onError(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={c('exportMenu', {open})} ref={menuRef}>
+      <button
+        className="button exportButton"
+        onClick={() => setOpen(!open)}
+        disabled={busy}>
+        {busy ? (
+          <span className="spinner"></span>
+        ) : (
+          <span className="icon">download</span>
+        )}
+        {label}
+      </button>
+      {open && (
+        <div className="exportDropdown">
+          {groups.map(({title, actions}) => (
+            <div key={title} className="exportGroup">
+              <h4>{title}</h4>
+              {actions.map((action) => (
+                <button
+                  key={action.label}
+                  disabled={action.disabled}
+                  onClick={() => run(action)}>
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Times from a model result that could not be parsed and were dropped.
+export default function InvalidTimecodes({times}: {times?: string[]}) {
+  if (!times?.length) return null;
+  return (
+    <div className="seoError">
+      Модель вернула нераспознанные таймкоды: {times.join(', ')} — эти
+      отметки пропущены.
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {JobStatus} from './jobQueue';
+
+export default function JobStateIcon({status}: {status?: JobStatus}) {
+  switch (status?.state) {
+    case 'queued':
+      return (
+        <span className="icon jobState" title="В очереди">
+          schedule
+        </span>
+      );
+    case 'running':
+      return (
+        <span
+          className="icon jobState running"
+          title={status.attempt > 1 ? `Попытка ${status.attempt}` : 'Генерация'}>
+          progress_activity
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="icon jobState failed" title={status.error}>
+          error
+        </span>
+      );
+    case 'cancelled':
+      return (
+        <span className="icon jobState" title="Отменено">
+          block
+        </span>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {KeywordRule, KeywordViolation} from './keywordRules';
+
+export default function KeywordReport({
+  violations,
+  onFix,
+  onReask,
+  disabled,
+}: {
+  violations: KeywordViolation[];
+  onFix: (rules?: KeywordRule[]) => void;
+  onReask: () => void;
+  disabled?: boolean;
+}) {
+  if (violations.length === 0) {
+    return (
+      <div className="keywordReport ok">
+        <span className="icon">check_circle</span> Требования промпта выполнены
+      </div>
+    );
+  }
+
+  return (
+    <div className="keywordReport">
+      <ul>
+        {violations.map((v) => (
+          <li key={v.rule}>
+            <span className="icon">warning</span>
+            <div>
+              <p>{v.message}</p>
+              {v.terms.length > 0 && (
+                <p className="terms">{v.terms.join(', ')}</p>
+              )}
+            </div>
+            {v.fixable && (
+              <button
+                className="button"
+                disabled={disabled}
+                onClick={() => onFix([v.rule])}>
+                Исправить
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="keywordReportActions">
+        {violations.some((v) => v.fixable) && (
+          <button
+            className="button"
+            disabled={disabled}
+            onClick={() => onFix()}>
+            <span className="icon">auto_fix_high</span> Исправить всё
+          </button>
+        )}
+        <button className="button" disabled={disabled} onClick={onReask}>
+          <span className="icon">refresh</span> Попросить модель исправить
+        </button>
+      </div>
+    </div>
+  );
+}
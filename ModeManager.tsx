@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {ChangeEvent, useRef, useState} from 'react';
+import {
+  ModeEntry,
+  ModeImportError,
+  createMode,
+  exportModes,
+  importModes,
+  outputLabels,
+  validateMode,
+} from './modeStore';
+import {ModeOutput} from './modes';
+import {templateVariables} from './promptTemplate';
+import {downloadBlob} from './utils';
+
+const FUNCTION_TEMPLATE = {
+  name: 'set_result',
+  description: 'Set the analysis result for the video',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      result: {type: 'STRING'},
+    },
+    required: ['result'],
+  },
+};
+
+function ModeEditor({mode, onSave, onCancel}) {
+  const [draft, setDraft] = useState<ModeEntry>(mode);
+  const [schemaText, setSchemaText] = useState(
+    JSON.stringify(mode.functionDeclaration || FUNCTION_TEMPLATE, null, 2),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    let next = {...draft, functionDeclaration: undefined};
+    if (draft.output === 'function') {
+      try {
+        next = {...draft, functionDeclaration: JSON.parse(schemaText)};
+      } catch {
+        setError('Схема функции не является корректным JSON.');
+        return;
+      }
+    }
+    const problem = validateMode(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(next);
+  };
+
+  return (
+    <div className="dialogBackdrop" onClick={onCancel}>
+      <div className="dialog modeEditor" onClick={(e) => e.stopPropagation()}>
+        <h2>Режим анализа</h2>
+        <div className="modeEditorRow">
+          <input
+            className="additionalInput emojiInput"
+            value={draft.emoji}
+            onChange={(e) => setDraft({...draft, emoji: e.target.value})}
+            aria-label="Эмодзи"
+          />
+          <input
+            className="additionalInput"
+            value={draft.name}
+            onChange={(e) => setDraft({...draft, name: e.target.value})}
+            placeholder="Название"
+          />
+        </div>
+        <textarea
+          className="additionalInput"
+          rows={8}
+          value={draft.prompt}
+          onChange={(e) => setDraft({...draft, prompt: e.target.value})}
+          placeholder="Промпт"
+        />
+        <details className="templateHint">
+          <summary>Переменные в промпте</summary>
+          <ul>
+            {templateVariables.map(({name, label}) => (
+              <li key={name}>
+                <code>{`{{${name}}}`}</code> — {label}
+              </li>
+            ))}
+          </ul>
+          <p>
+            <code>{'{{language|русский}}'}</code> задаёт значение по умолчанию.
+            Строка с пустой переменной без значения по умолчанию не попадает в
+            промпт.
+          </p>
+        </details>
+        <div className="modeEditorRow">
+          <label>
+            Вывод:
+            <div className="modelSelector">
+              <select
+                value={draft.output}
+                onChange={(e) =>
+                  setDraft({...draft, output: e.target.value as ModeOutput})
+                }>
+                {Object.entries(outputLabels).map(([id, label]) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </label>
+          <label>
+            Температура: {draft.temperature.toFixed(1)}
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.1"
+              value={draft.temperature}
+              onChange={(e) =>
+                setDraft({...draft, temperature: e.target.valueAsNumber})
+              }
+            />
+          </label>
+        </div>
+        {draft.output === 'function' && (
+          <textarea
+            className="additionalInput schemaInput"
+            rows={10}
+            value={schemaText}
+            onChange={(e) => setSchemaText(e.target.value)}
+            aria-label="Схема функции"
+          />
+        )}
+        {error && <div className="seoError">{error}</div>}
+        <div className="dialogActions">
+          <button className="button" onClick={onCancel}>
+            Отмена
+          </button>
+          <button className="button primary" onClick={save}>
+            Сохранить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ModeManager({
+  builtInModes,
+  customModes,
+  onChange,
+  onClose,
+}: {
+  builtInModes: ModeEntry[];
+  customModes: ModeEntry[];
+  onChange: (modes: ModeEntry[]) => void;
+  onClose: () => void;
+}) {
+  const [editing, setEditing] = useState<ModeEntry | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const saveMode = (mode: ModeEntry) => {
+    const exists = customModes.some((m) => m.id === mode.id);
+    onChange(
+      exists
+        ? customModes.map((m) => (m.id === mode.id ? mode : m))
+        : [...customModes, mode],
+    );
+    setEditing(null);
+  };
+
+  const move = (index: number, delta: number) => {
+    const next = [...customModes];
+    const [mode] = next.splice(index, 1);
+    next.splice(index + delta, 0, mode);
+    onChange(next);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange([...customModes, ...importModes(await file.text())]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(
+        error instanceof ModeImportError ? error.message : 'Ошибка импорта.',
+      );
+    }
+  };
+
+  return (
+    <div className="modeManager">
+      <div className="modeManagerHeader">
+        <h2>Режимы</h2>
+        <button onClick={onClose} aria-label="Закрыть">
+          <span className="icon">close</span>
+        </button>
+      </div>
+      <ul>
+        {builtInModes.map((mode) => (
+          <li key={mode.id}>
+            <span className="emoji">{mode.emoji}</span>
+            <span className="modeName" title="Встроенный режим">
+              {mode.name}
+            </span>
+            <button
+              title="Дублировать"
+              onClick={() => setEditing(createMode(mode))}>
+              <span className="icon">content_copy</span>
+            </button>
+          </li>
+        ))}
+        {customModes.map((mode, i) => (
+          <li key={mode.id}>
+            <span className="emoji">{mode.emoji}</span>
+            <span className="modeName">{mode.name}</span>
+            <button
+              title="Выше"
+              disabled={i === 0}
+              onClick={() => move(i, -1)}>
+              <span className="icon">arrow_upward</span>
+            </button>
+            <button
+              title="Ниже"
+              disabled={i === customModes.length - 1}
+              onClick={() => move(i, 1)}>
+              <span className="icon">arrow_downward</span>
+            </button>
+            <button title="Изменить" onClick={() => setEditing(mode)}>
+              <span className="icon">edit</span>
+            </button>
+            <button
+              title="Дублировать"
+              onClick={() => setEditing(createMode(mode))}>
+              <span className="icon">content_copy</span>
+            </button>
+            <button
+              title="Удалить"
+              onClick={() =>
+                onChange(customModes.filter((m) => m.id !== mode.id))
+              }>
+              <span className="icon">delete</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="modeManagerActions">
+        <button className="button" onClick={() => setEditing(createMode())}>
+          <span className="icon">add</span> Новый
+        </button>
+        <button className="button" onClick={() => importRef.current?.click()}>
+          <span className="icon">upload_file</span> Импорт
+        </button>
+        <button
+          className="button"
+          disabled={customModes.length === 0}
+          onClick={() =>
+            downloadBlob(
+              new Blob([exportModes(customModes)], {type: 'application/json'}),
+              'modes.json',
+            )
+          }>
+          <span className="icon">download</span> Экспорт
+        </button>
+      </div>
+      {importError && <div className="seoError">{importError}</div>}
+      <input
+        type="file"
+        accept="application/json,.json"
+        ref={importRef}
+        onChange={handleImport}
+        style={{display: 'none'}}
+      />
+      {editing && (
+        <ModeEditor
+          mode={editing}
+          onSave={saveMode}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useState} from 'react';
+import {ProviderId, ProviderSettings, providerLabels} from './provider';
+
+export default function ProviderSelector({
+  settings,
+  onChange,
+}: {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}) {
+  // Text fields are committed on blur so a half-typed URL never triggers
+  // re-uploads.
+  const [draft, setDraft] = useState(settings);
+
+  const commit = (next: ProviderSettings) => {
+    setDraft(next);
+    if (JSON.stringify(next) !== JSON.stringify(settings)) onChange(next);
+  };
+
+  return (
+    <div className="providerSelector">
+      <h2>Модель:</h2>
+      <div className="modelSelector">
+        <select
+          value={draft.provider}
+          onChange={(e) =>
+            commit({
+              ...draft,
+              provider: e.target.value as ProviderId,
+              model: '',
+            })
+          }>
+          {Object.entries(providerLabels).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {draft.provider !== 'mock' && (
+        <input
+          className="additionalInput"
+          placeholder="Модель по умолчанию"
+          value={draft.model}
+          onChange={(e) => setDraft({...draft, model: e.target.value})}
+          onBlur={() => commit(draft)}
+        />
+      )}
+      {draft.provider === 'openai' && (
+        <input
+          className="additionalInput"
+          placeholder="http://localhost:11434/v1"
+          value={draft.baseUrl}
+          onChange={(e) => setDraft({...draft, baseUrl: e.target.value})}
+          onBlur={() => commit(draft)}
+        />
+      )}
+      {draft.provider !== 'mock' && (
+        <input
+          type="password"
+          className="additionalInput"
+          autoComplete="off"
+          placeholder={
+            draft.provider === 'gemini'
+              ? 'API-ключ (по умолчанию из GEMINI_API_KEY)'
+              : 'API-ключ (если сервер требует)'
+          }
+          value={draft.apiKey}
+          onChange={(e) => setDraft({...draft, apiKey: e.target.value.trim()})}
+          onBlur={() => commit(draft)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {useMemo, useState} from 'react';
+import ExportMenu from './ExportMenu.jsx';
+import {JobStatus} from './jobQueue';
+import JobStateIcon from './JobStateIcon.jsx';
+import {
+  approvalLabels,
+  approvalOf,
+  hasResult,
+  keywordCount,
+  reviewIssues,
+} from './review';
+import {AgencyId, agencies} from './stockExport';
+import {ApprovalState, VideoFileEntry} from './types';
+
+type Filter = 'all' | 'issues' | ApprovalState;
+type Sort = 'order' | 'name' | 'state' | 'issues';
+
+const sortLabels: Record<Sort, string> = {
+  order: 'По порядку',
+  name: 'По имени',
+  state: 'По статусу',
+  issues: 'По числу замечаний',
+};
+
+const approvalOrder = Object.keys(approvalLabels) as ApprovalState[];
+
+interface Row {
+  video: VideoFileEntry;
+  order: number;
+  state: ApprovalState;
+  issues: string[];
+}
+
+const compare: Record<Sort, (a: Row, b: Row) => number> = {
+  order: (a, b) => a.order - b.order,
+  name: (a, b) => a.video.name.localeCompare(b.video.name),
+  state: (a, b) =>
+    approvalOrder.indexOf(a.state) - approvalOrder.indexOf(b.state),
+  issues: (a, b) => b.issues.length - a.issues.length,
+};
+
+export default function ReviewGrid({
+  videos,
+  jobStatus,
+  riskTerms,
+  activeVideoId,
+  regenerateLabel,
+  isRunning,
+  onOpen,
+  onSetApproval,
+  onRegenerate,
+  onCompare,
+  onExport,
+  onClose,
+}: {
+  videos: VideoFileEntry[];
+  jobStatus: Record<string, JobStatus>;
+  riskTerms: string[];
+  activeVideoId: string | null;
+  regenerateLabel: string;
+  isRunning: boolean;
+  onOpen: (id: string) => void;
+  onSetApproval: (ids: string[], state: ApprovalState) => void;
+  onRegenerate: (ids: string[]) => void;
+  onCompare: (ids: string[]) => void;
+  onExport: (ids: string[], agencyId: AgencyId) => void;
+  onClose: () => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<Filter>('all');
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [sort, setSort] = useState<Sort>('order');
+
+  const rows = useMemo(
+    (): Row[] =>
+      videos.map((video, order) => ({
+        video,
+        order,
+        state: approvalOf(video),
+        issues: reviewIssues(video, riskTerms),
+      })),
+    [videos, riskTerms],
+  );
+
+  const visible = useMemo(() => {
+    const filtered = rows.filter((row) =>
+      filter === 'all'
+        ? true
+        : filter === 'issues'
+          ? row.issues.length > 0
+          : row.state === filter,
+    );
+    return filtered.sort((a, b) => compare[sort](a, b) || a.order - b.order);
+  }, [rows, filter, sort]);
+
+  const counts = useMemo(() => {
+    const byState = {} as Record<Filter, number>;
+    rows.forEach((row) => {
+      byState[row.state] = (byState[row.state] || 0) + 1;
+      if (row.issues.length) byState.issues = (byState.issues || 0) + 1;
+    });
+    return byState;
+  }, [rows]);
+
+  // Only visible rows count as selected, so a filter change never acts on
+  // hidden videos.
+  const selectedIds = visible
+    .filter((row) => selected.has(row.video.id))
+    .map((row) => row.video.id);
+  const allSelected =
+    visible.length > 0 && selectedIds.length === visible.length;
+  const canRegenerate = videos.some(
+    (v) => selectedIds.includes(v.id) && v.geminiFile,
+  );
+  const canExport = videos.some(
+    (v) => selectedIds.includes(v.id) && hasResult(v),
+  );
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const toggleAll = () =>
+    setSelected(
+      allSelected ? new Set() : new Set(visible.map((row) => row.video.id)),
+    );
+
+  return (
+    <div className="dialogBackdrop" onClick={onClose}>
+      <div className="dialog reviewGrid" onClick={(e) => e.stopPropagation()}>
+        <div className="reviewHeader">
+          <h2>Обзор видео ({videos.length})</h2>
+          <div className="modelSelector">
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as Filter)}>
+              <option value="all">Все</option>
+              {approvalOrder.map((state) => (
+                <option key={state} value={state}>
+                  {approvalLabels[state]} ({counts[state] || 0})
+                </option>
+              ))}
+              <option value="issues">
+                С замечаниями ({counts.issues || 0})
+              </option>
+            </select>
+          </div>
+          <div className="modelSelector">
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as Sort)}>
+              {Object.entries(sortLabels).map(([id, label]) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="reviewActions">
+          <span>Выбрано: {selectedIds.length}</span>
+          <button
+            className="button"
+            disabled={!selectedIds.length}
+            onClick={() => onSetApproval(selectedIds, 'approved')}>
+            <span className="icon">check</span> Одобрить
+          </button>
+          <button
+            className="button"
+            disabled={!selectedIds.length}
+            onClick={() => onSetApproval(selectedIds, 'needsFix')}>
+            <span className="icon">flag</span> Нужна правка
+          </button>
+          <button
+            className="button"
+            disabled={!canRegenerate || isRunning}
+            title="Выбранный в боковой панели режим, без кэша"
+            onClick={() => onRegenerate(selectedIds)}>
+            <span className="icon">refresh</span> {regenerateLabel}
+          </button>
+          <button
+            className="button"
+            disabled={!canRegenerate || isRunning}
+            title="Несколько вариантов промпта, модели и температуры"
+            onClick={() => onCompare(selectedIds)}>
+            <span className="icon">compare</span> Сравнить
+          </button>
+          <ExportMenu
+            onError={(e) => setExportError(e ? (e as Error).message : null)}
+            groups={[
+              {
+                title: 'CSV для стоков (выбранные)',
+                actions: (Object.keys(agencies) as AgencyId[]).map((id) => ({
+                  label: agencies[id].label,
+                  onClick: () => onExport(selectedIds, id),
+                  disabled: !canExport,
+                })),
+              },
+            ]}
+          />
+        </div>
+
+        {exportError && (
+          <div className="jobError">Не удалось экспортировать: {exportError}</div>
+        )}
+
+        {visible.length === 0 ? (
+          <p>Нет видео с таким статусом.</p>
+        ) : (
+          <table className="stockRows reviewRows">
+            <thead>
+              <tr>
+                <th>
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                  />
+                </th>
+                <th />
+                <th>Файл</th>
+                <th>Заголовок</th>
+                <th>Ключ. слова</th>
+                <th>Проверка</th>
+                <th>Статус</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(({video, state, issues}) => (
+                <tr
+                  key={video.id}
+                  className={c({
+                    active: video.id === activeVideoId,
+                    selected: selected.has(video.id),
+                  })}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(video.id)}
+                      onChange={() => toggle(video.id)}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="reviewThumb"
+                      title="Открыть"
+                      onClick={() => onOpen(video.id)}>
+                      {video.thumbnail ? (
+                        <img src={video.thumbnail} alt="" />
+                      ) : (
+                        <span className="icon">movie</span>
+                      )}
+                    </button>
+                  </td>
+                  <td className="reviewName">
+                    {video.name} <JobStateIcon status={jobStatus[video.id]} />
+                  </td>
+                  <td>{video.seoData?.title || '—'}</td>
+                  <td>{hasResult(video) ? keywordCount(video) : '—'}</td>
+                  <td>
+                    {issues.length ? (
+                      <span
+                        className="reviewIssues"
+                        title={issues.join('\n')}>
+                        ⚠️ {issues.length}
+                      </span>
+                    ) : hasResult(video) ? (
+                      '✓'
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td>
+                    <div className={c('modelSelector', 'approval', state)}>
+                      <select
+                        value={state}
+                        onChange={(e) =>
+                          onSetApproval(
+                            [video.id],
+                            e.target.value as ApprovalState,
+                          )
+                        }>
+                        {approvalOrder.map((s) => (
+                          <option key={s} value={s}>
+                            {approvalLabels[s]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="dialogActions">
+          <button className="button primary" onClick={onClose}>
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {useState} from 'react';
+import {
+  DEFAULT_RISK_TERMS,
+  RiskHit,
+  UsageLabel,
+  highlightRisks,
+  parseRiskTermList,
+  reviewFindings,
+  usageLabels,
+} from './riskTerms';
+import {ReleaseReview} from './types';
+
+const Highlighted = ({text, hits}: {text: string; hits: RiskHit[]}) => (
+  <>
+    {highlightRisks(text, hits).map((part, i) =>
+      part.risky ? <mark key={i}>{part.text}</mark> : part.text,
+    )}
+  </>
+);
+
+export default function RiskReport({
+  label,
+  hits,
+  title,
+  keywords,
+  review,
+  reviewError,
+  terms,
+  onRemove,
+  onReview,
+  onTermsChange,
+  disabled,
+}: {
+  label: UsageLabel;
+  hits: RiskHit[];
+  title: string;
+  keywords: string;
+  review?: ReleaseReview;
+  reviewError: string | null;
+  terms: string[];
+  onRemove: (terms: string[]) => void;
+  onReview: () => void;
+  onTermsChange: (terms: string[]) => void;
+  disabled?: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const findings = reviewFindings(review);
+
+  return (
+    <div className={c('riskReport', label)}>
+      <div className="riskHeader">
+        <span className="icon">
+          {label === 'commercial' ? 'verified' : 'gpp_maybe'}
+        </span>
+        <strong>{usageLabels[label]}</strong>
+        <button
+          className="button"
+          disabled={disabled}
+          onClick={onReview}
+          title="Спросить модель, есть ли в кадре логотипы, люди или объекты, требующие релиза">
+          <span className="icon">visibility</span> Проверить кадр
+        </button>
+        <button
+          className="button"
+          onClick={() => setDraft(draft === null ? terms.join('\n') : null)}
+          title="Список запрещённых слов">
+          <span className="icon">edit_note</span>
+        </button>
+      </div>
+
+      {hits.length > 0 && (
+        <>
+          <p className="riskText">
+            <Highlighted text={title} hits={hits} />
+          </p>
+          <p className="riskText terms">
+            <Highlighted text={keywords} hits={hits} />
+          </p>
+          <ul>
+            {hits.map((hit) => (
+              <li key={hit.term}>
+                <span className="icon">warning</span>
+                <div>
+                  <p>{hit.matches.join(', ')}</p>
+                  {hit.matches.every(
+                    (m) => m.toLowerCase() !== hit.term.toLowerCase(),
+                  ) && <p className="terms">{hit.term}</p>}
+                </div>
+                <button
+                  className="button"
+                  disabled={disabled}
+                  onClick={() => onRemove([hit.term])}>
+                  Удалить
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="keywordReportActions">
+            <button
+              className="button"
+              disabled={disabled}
+              onClick={() => onRemove(hits.map((h) => h.term))}>
+              <span className="icon">delete_sweep</span> Удалить всё
+            </button>
+          </div>
+        </>
+      )}
+
+      {review && (
+        <div className="riskReview">
+          {findings.length
+            ? `Модель нашла в кадре: ${findings.join('; ')}.`
+            : 'Модель не нашла в кадре логотипов, узнаваемых людей и объектов.'}
+          {review.notes && <p className="terms">{review.notes}</p>}
+        </div>
+      )}
+      {reviewError && <div className="seoError">Ошибка: {reviewError}</div>}
+
+      {draft !== null && (
+        <div className="riskTermsEditor">
+          <textarea
+            className="additionalInput"
+            rows={8}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="По одному слову или фразе в строке, /regex/ для шаблонов"
+          />
+          <div className="keywordReportActions">
+            <button
+              className="button"
+              onClick={() => setDraft(DEFAULT_RISK_TERMS.join('\n'))}>
+              По умолчанию
+            </button>
+            <button
+              className="button"
+              onClick={() => {
+                onTermsChange(parseRiskTermList(draft));
+                setDraft(null);
+              }}>
+              Сохранить
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
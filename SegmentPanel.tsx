@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {JobStatus} from './jobQueue';
+import JobStateIcon from './JobStateIcon.jsx';
+import {keywordCount} from './review';
+import {formatRange} from './segments';
+import {VideoSegment} from './types';
+
+export default function SegmentPanel({
+  segments,
+  jobStatus,
+  canDetect,
+  canGenerate,
+  onSeek,
+  onRemove,
+  onFromCuts,
+  onGenerate,
+  onClear,
+}: {
+  segments: VideoSegment[];
+  jobStatus: Record<string, JobStatus>;
+  canDetect: boolean;
+  canGenerate: boolean;
+  onSeek: (secs: number) => void;
+  onRemove: (id: string) => void;
+  onFromCuts: () => void;
+  onGenerate: () => void;
+  onClear: () => void;
+}) {
+  return (
+    <div className="segmentPanel">
+      <div className="segmentHeader">
+        <h3>Сегменты ({segments.length})</h3>
+        <button
+          className="button"
+          disabled={!canDetect}
+          title="Один сегмент на каждый план между склейками"
+          onClick={onFromCuts}>
+          <span className="icon">content_cut</span> Из склеек
+        </button>
+        <button
+          className="button"
+          disabled={!canGenerate || segments.length === 0}
+          onClick={onGenerate}>
+          <span className="icon">auto_awesome</span> SEO для сегментов
+        </button>
+        <button
+          className="button"
+          disabled={segments.length === 0}
+          onClick={onClear}>
+          <span className="icon">delete</span> Очистить
+        </button>
+      </div>
+      {segments.length === 0 ? (
+        <p className="segmentHint">
+          Отметьте начало и конец на шкале плеера или создайте сегменты из
+          найденных склеек.
+        </p>
+      ) : (
+        <ul>
+          {segments.map((segment) => (
+            <li key={segment.id}>
+              <button
+                className="segmentRange"
+                title="Перейти"
+                onClick={() => onSeek(segment.start)}>
+                {formatRange(segment)}
+              </button>
+              <span className="segmentTitle">
+                {segment.seoData?.title || '—'}
+              </span>
+              {segment.seoData && (
+                <span className="segmentKeywords">
+                  {keywordCount(segment)} ключ.
+                </span>
+              )}
+              <JobStateIcon status={jobStatus[segment.id]} />
+              <button
+                className="segmentRemove"
+                title="Удалить сегмент"
+                onClick={() => onRemove(segment.id)}>
+                <span className="icon">close</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
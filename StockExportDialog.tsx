@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import c from 'classnames';
+import {useMemo, useState} from 'react';
+import {usageLabel} from './riskTerms';
+import {
+  AgencyId,
+  agencies,
+  buildStockCsv,
+  toStockItem,
+  validateStockItem,
+} from './stockExport';
+import {downloadBlob} from './utils';
+
+export default function StockExportDialog({
+  agencyId,
+  videos,
+  riskTerms,
+  onExported,
+  onClose,
+}) {
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const agency = agencies[agencyId as AgencyId];
+
+  const rows = useMemo(
+    () =>
+      videos
+        .filter((v) => v.seoData?.title || v.seoData?.keywords)
+        .map((v) => {
+          const editorial = usageLabel(v, riskTerms) === 'editorial';
+          const item = toStockItem(v, editorial);
+          return {id: v.id, item, issues: validateStockItem(agencyId, item)};
+        }),
+    [videos, agencyId, riskTerms],
+  );
+  const invalidCount = rows.filter((r) => r.issues.length).length;
+  const exported = skipInvalid ? rows.filter((r) => !r.issues.length) : rows;
+
+  const download = () => {
+    const csv = buildStockCsv(
+      agencyId,
+      exported.map((r) => r.item),
+    );
+    downloadBlob(new Blob([csv], {type: 'text/csv'}), agency.csvName);
+    onExported?.(exported.map((r) => r.id));
+    onClose();
+  };
+
+  return (
+    <div className="dialogBackdrop" onClick={onClose}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <h2>Экспорт CSV: {agency.label}</h2>
+        {rows.length === 0 ? (
+          <p>Нет видео с SEO-метаданными.</p>
+        ) : (
+          <table className="stockRows">
+            <thead>
+              <tr>
+                <th>Файл</th>
+                <th>Заголовок</th>
+                <th>Ключ. слова</th>
+                <th>Проверка</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({id, item, issues}) => (
+                <tr key={id} className={c({invalid: issues.length})}>
+                  <td>{agency.fileName(item.fileName)}</td>
+                  <td>
+                    {item.title.length}/{agency.limits.titleMax}
+                  </td>
+                  <td>
+                    {item.keywords.length}/{agency.limits.keywordsMax}
+                  </td>
+                  <td>
+                    {issues.length
+                      ? issues.map((issue) => (
+                          <div key={issue.message}>⚠️ {issue.message}</div>
+                        ))
+                      : '✓'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {invalidCount > 0 && (
+          <label className="checkboxLabel">
+            <input
+              type="checkbox"
+              checked={skipInvalid}
+              onChange={(e) => setSkipInvalid(e.target.checked)}
+            />
+            <span>Исключить строки с ошибками ({invalidCount})</span>
+          </label>
+        )}
+        <div className="dialogActions">
+          <button className="button" onClick={onClose}>
+            Отмена
+          </button>
+          <button
+            className="button primary"
+            onClick={download}
+            disabled={exported.length === 0}>
+            {invalidCount > 0 && !skipInvalid
+              ? 'Скачать с ошибками'
+              : 'Скачать CSV'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
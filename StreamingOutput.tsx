@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {ModeOutput} from './modes';
+import {parseKeywords} from './stockExport';
+import {parseCueLines, parseStreamedSeo} from './streaming';
+
+// The answer as it arrives, rendered like the finished result would be.
+export default function StreamingOutput({
+  output,
+  text,
+  onStop,
+}: {
+  output: ModeOutput;
+  text: string;
+  onStop: () => void;
+}) {
+  const renderBody = () => {
+    switch (output) {
+      case 'seo': {
+        const seo = parseStreamedSeo(text);
+        const fields = [
+          ['Заголовок', seo.title],
+          ['Русский заголовок', seo.russianTitle],
+          [
+            `Ключевые слова (${parseKeywords(seo.keywords).length})`,
+            seo.keywords,
+          ],
+        ];
+        return fields.map(
+          ([label, value]) =>
+            value && (
+              <div key={label} className="seoSection">
+                <h3>{label}</h3>
+                <div className="copyableContent">
+                  <textarea
+                    value={value}
+                    readOnly
+                    rows={3}
+                    aria-label={label}
+                  />
+                </div>
+              </div>
+            ),
+        );
+      }
+      case 'timecodes':
+        return (
+          <ul>
+            {parseCueLines(text, false).map((cue, i) => (
+              <li key={i} className="outputItem streamingCue">
+                <time>{cue.time}</time>
+                <p>{cue.text}</p>
+              </li>
+            ))}
+          </ul>
+        );
+      default:
+        return <div className="textOutput">{text}</div>;
+    }
+  };
+
+  return (
+    <div className="streamingOutput">
+      <div className="outputToolbar">
+        <span className="streamingLabel">
+          <span className="spinner"></span> Модель отвечает...
+        </span>
+        <button className="button" onClick={onStop}>
+          ⏹️ Остановить
+        </button>
+      </div>
+      {renderBody()}
+    </div>
+  );
+}
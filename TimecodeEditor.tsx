@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {ReactNode, useEffect, useState} from 'react';
+import {
+  TimecodeItem,
+  deleteCue,
+  insertCue,
+  mergeWithNext,
+  shiftCues,
+  updateCueText,
+} from './cueEdits';
+import {timeToSecs} from './timecode';
+
+interface CueRowProps {
+  cue: TimecodeItem;
+  isLast: boolean;
+  onSeek: () => void;
+  onTextChange: (text: string) => void;
+  onDelete: () => void;
+  onMerge: () => void;
+}
+
+function CueRow({
+  cue,
+  isLast,
+  onSeek,
+  onTextChange,
+  onDelete,
+  onMerge,
+}: CueRowProps) {
+  // Text is committed on blur so a whole edit is one undo step.
+  const [draft, setDraft] = useState(cue.text);
+  useEffect(() => setDraft(cue.text), [cue.text]);
+
+  return (
+    <>
+      <button className="cueTime" onClick={onSeek}>
+        <time>{cue.time}</time>
+      </button>
+      <textarea
+        className="cueText"
+        rows={Math.max(1, Math.ceil(draft.length / 60))}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== cue.text && onTextChange(draft)}
+        aria-label={`Текст субтитра ${cue.time}`}
+      />
+      <div className="cueActions">
+        <button
+          title="Объединить со следующим"
+          disabled={isLast}
+          onClick={onMerge}>
+          <span className="icon">merge</span>
+        </button>
+        <button title="Удалить" onClick={onDelete}>
+          <span className="icon">delete</span>
+        </button>
+      </div>
+    </>
+  );
+}
+
+export default function TimecodeEditor({
+  timecodeList,
+  onChange,
+  onSeek,
+  getPlayhead,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  children,
+}: {
+  timecodeList: TimecodeItem[];
+  onChange: (next: TimecodeItem[]) => void;
+  onSeek: (secs: number) => void;
+  getPlayhead: () => number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  children?: ReactNode;
+}) {
+  const [offset, setOffset] = useState('');
+  const offsetValue = parseFloat(offset.replace(',', '.'));
+
+  return (
+    <>
+      <div className="outputToolbar timecodeToolbar">
+        <button
+          className="button"
+          title="Отменить (Ctrl+Z)"
+          disabled={!canUndo}
+          onClick={onUndo}>
+          <span className="icon">undo</span>
+        </button>
+        <button
+          className="button"
+          title="Повторить (Ctrl+Shift+Z)"
+          disabled={!canRedo}
+          onClick={onRedo}>
+          <span className="icon">redo</span>
+        </button>
+        <button
+          className="button"
+          onClick={() => onChange(insertCue(timecodeList, getPlayhead()))}>
+          <span className="icon">add</span> Субтитр здесь
+        </button>
+        <div className="shiftControl">
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="±сек"
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            aria-label="Сдвиг всех субтитров в секундах"
+          />
+          <button
+            className="button"
+            disabled={!offsetValue}
+            onClick={() => {
+              onChange(shiftCues(timecodeList, offsetValue));
+              setOffset('');
+            }}>
+            <span className="icon">swap_horiz</span> Сдвинуть
+          </button>
+        </div>
+        {children}
+      </div>
+      <ul>
+        {timecodeList.map((cue, i) => (
+          <li key={`${i}-${cue.time}`} className="outputItem cueRow">
+            <CueRow
+              cue={cue}
+              isLast={i === timecodeList.length - 1}
+              onSeek={() => onSeek(timeToSecs(cue.time))}
+              onTextChange={(text) =>
+                onChange(updateCueText(timecodeList, i, text))
+              }
+              onDelete={() => onChange(deleteCue(timecodeList, i))}
+              onMerge={() => onChange(mergeWithNext(timecodeList, i))}
+            />
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
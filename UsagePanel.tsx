@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useMemo, useState} from 'react';
+import {UsageRecord} from './types';
+import {
+  ModelPrice,
+  SESSION_START,
+  dayKey,
+  formatCost,
+  hasPrice,
+  summarizeUsage,
+  totalCost,
+} from './usage';
+import {formatSize} from './utils';
+
+type GroupBy = 'video' | 'mode' | 'day';
+
+const groupings: Record<
+  GroupBy,
+  {label: string; column: string; key: (record: UsageRecord) => string}
+> = {
+  video: {label: 'По видео', column: 'Видео', key: (r) => r.videoName || '—'},
+  mode: {label: 'По режимам', column: 'Режим', key: (r) => r.mode || '—'},
+  day: {label: 'По дням', column: 'День', key: (r) => dayKey(r.time)},
+};
+
+const formatTokens = (n: number) => n.toLocaleString('ru-RU');
+
+export default function UsagePanel({
+  records,
+  prices,
+  budget,
+  onPricesChange,
+  onBudgetChange,
+  onClear,
+  cacheStats,
+  onClearCache,
+  onClose,
+}: {
+  records: UsageRecord[];
+  prices: Record<string, ModelPrice>;
+  budget: number;
+  onPricesChange: (prices: Record<string, ModelPrice>) => void;
+  onBudgetChange: (budget: number) => void;
+  onClear: () => void;
+  cacheStats: {entries: number; bytes: number} | null;
+  onClearCache: () => void;
+  onClose: () => void;
+}) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('video');
+  const [newModel, setNewModel] = useState('');
+
+  const rows = useMemo(
+    () =>
+      summarizeUsage(records, groupings[groupBy].key, prices).sort((a, b) =>
+        groupBy === 'day' ? b.key.localeCompare(a.key) : b.cost - a.cost,
+      ),
+    [records, groupBy, prices],
+  );
+  const today = dayKey(Date.now());
+  const totals = [
+    {
+      label: 'Сегодня',
+      records: records.filter((r) => dayKey(r.time) === today),
+    },
+    {label: 'Сессия', records: records.filter((r) => r.time >= SESSION_START)},
+    {label: 'Всего', records},
+  ];
+  const unpriced = [
+    ...new Set(records.map((r) => r.model).filter((m) => !hasPrice(m, prices))),
+  ];
+
+  const setPrice = (model: string, field: keyof ModelPrice, value: number) =>
+    onPricesChange({
+      ...prices,
+      [model]: {...prices[model], [field]: Math.max(0, value || 0)},
+    });
+
+  const removePrice = (model: string) => {
+    const next = {...prices};
+    delete next[model];
+    onPricesChange(next);
+  };
+
+  const addPrice = () => {
+    const model = newModel.trim();
+    if (!model || prices[model]) return;
+    onPricesChange({...prices, [model]: {input: 0, output: 0}});
+    setNewModel('');
+  };
+
+  return (
+    <div className="dialogBackdrop" onClick={onClose}>
+      <div className="dialog usagePanel" onClick={(e) => e.stopPropagation()}>
+        <h2>Расход токенов</h2>
+
+        <div className="usageTotals">
+          {totals.map(({label, records}) => (
+            <div key={label}>
+              <span>{label}</span>
+              <strong>{formatCost(totalCost(records, prices))}</strong>
+              <span>
+                {records.length} запр. ·{' '}
+                {formatTokens(
+                  records.reduce(
+                    (sum, r) => sum + r.inputTokens + r.outputTokens,
+                    0,
+                  ),
+                )}{' '}
+                ток.
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {records.length === 0 ? (
+          <p>Запросов к модели ещё не было.</p>
+        ) : (
+          <>
+            <div className="modelSelector usageGroupBy">
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as GroupBy)}>
+                {Object.entries(groupings).map(([id, {label}]) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <table className="stockRows">
+              <thead>
+                <tr>
+                  <th>{groupings[groupBy].column}</th>
+                  <th>Запросы</th>
+                  <th>Вход</th>
+                  <th>из них видео</th>
+                  <th>Выход</th>
+                  <th>Стоимость</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td>{row.key}</td>
+                    <td>{row.calls}</td>
+                    <td>{formatTokens(row.inputTokens)}</td>
+                    <td>{formatTokens(row.videoTokens)}</td>
+                    <td>{formatTokens(row.outputTokens)}</td>
+                    <td>{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <details className="usagePrices">
+          <summary>Цены, $ за 1M токенов</summary>
+          {unpriced.length > 0 && (
+            <p className="usageHint">
+              Нет цены для: {unpriced.join(', ')} — эти запросы считаются
+              бесплатными.
+            </p>
+          )}
+          <table className="stockRows">
+            <thead>
+              <tr>
+                <th>Модель</th>
+                <th>Вход</th>
+                <th>Выход</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(prices).map(([model, price]) => (
+                <tr key={model}>
+                  <td>{model}</td>
+                  {(['input', 'output'] as const).map((field) => (
+                    <td key={field}>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price[field]}
+                        onChange={(e) =>
+                          setPrice(model, field, e.target.valueAsNumber)
+                        }
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button
+                      className="button"
+                      title="Удалить"
+                      onClick={() => removePrice(model)}>
+                      <span className="icon">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="usageAddPrice">
+            <input
+              type="text"
+              className="additionalInput"
+              placeholder="Название модели"
+              value={newModel}
+              onChange={(e) => setNewModel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPrice()}
+            />
+            <button className="button" onClick={addPrice}>
+              <span className="icon">add</span> Добавить
+            </button>
+          </div>
+        </details>
+
+        <label className="checkboxLabel">
+          <span>Дневной бюджет, $ (0 — без ограничения):</span>
+          <input
+            type="number"
+            className="concurrencyInput"
+            min={0}
+            step={0.1}
+            value={budget}
+            onChange={(e) =>
+              onBudgetChange(Math.max(0, e.target.valueAsNumber || 0))
+            }
+          />
+        </label>
+
+        <div className="usageCache">
+          <span>
+            Кэш ответов:{' '}
+            {cacheStats
+              ? `${cacheStats.entries} · ${formatSize(cacheStats.bytes)}`
+              : '…'}
+          </span>
+          <button
+            className="button"
+            disabled={!cacheStats?.entries}
+            onClick={onClearCache}>
+            <span className="icon">delete</span> Очистить кэш
+          </button>
+        </div>
+
+        <div className="dialogActions">
+          <button
+            className="button"
+            disabled={records.length === 0}
+            onClick={onClear}>
+            Очистить историю
+          </button>
+          <button className="button primary" onClick={onClose}>
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -22,26 +22,35 @@ import {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
   useState,
+  PointerEvent,
   SyntheticEvent,
 } from 'react';
-import {timeToSecs} from './utils';
+import {nearestCut} from './shotDetection';
+import {formatClock, timeToSecs} from './timecode';
 
-const formatTime = (t) =>
-  `${Math.floor(t / 60)}:${Math.floor(t % 60)
-    .toString()
-    .padStart(2, '0')}`;
+// Dragged markers stick to scene cuts within this distance; Alt disables it.
+const SNAP_PX = 6;
 
 export default function VideoPlayer({
   url,
   timecodeList,
+  cuts,
+  segments,
+  onAddSegment,
   requestedTimecode,
   isLoadingVideo,
   videoError,
   jumpToTimecode,
+  onTimeUpdate,
+  onRetime,
   onUploadClick,
   onClearAll,
   hasVideos,
+  missingFileName,
+  keepBlobs,
+  onKeepBlobsChange,
 }) {
   const [video, setVideo] = useState(null);
   const [duration, setDuration] = useState(0);
@@ -50,6 +59,14 @@ export default function VideoPlayer({
   const [isScrubbing, setIsScrubbing] = useState(false);
   const [currentCaption, setCurrentCaption] = useState(null);
   const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  // Marker being dragged on the scrubber and its preview position in seconds.
+  const [drag, setDrag] = useState<{index: number; secs: number} | null>(
+    null,
+  );
+  // In/out points of the segment being marked.
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+  const markersRef = useRef<HTMLDivElement>(null);
   const currentSecs = duration * scrubberTime || 0;
   const currentPercent = scrubberTime * 100;
   const timecodeListReversed = useMemo(
@@ -74,6 +91,7 @@ export default function VideoPlayer({
   };
 
   const updateTime = () => {
+    onTimeUpdate?.(video.currentTime);
     if (!isScrubbing) {
       setScrubberTime(video.currentTime / video.duration);
     }
@@ -87,6 +105,43 @@ export default function VideoPlayer({
     }
   };
 
+  // A press on a marker tick seeks; dragging it more than a few pixels
+  // retimes the cue instead.
+  const startMarkerDrag = (
+    e: PointerEvent<HTMLDivElement>,
+    index: number,
+    secs: number,
+  ) => {
+    const rect = markersRef.current.getBoundingClientRect();
+    const startX = e.clientX;
+    let moved = false;
+    let target = secs;
+
+    const onMove = (ev: globalThis.PointerEvent) => {
+      if (!moved && Math.abs(ev.clientX - startX) < 4) return;
+      moved = true;
+      const pct = Math.min(1, Math.max(0, (ev.clientX - rect.left) / rect.width));
+      target = pct * duration;
+      if (cuts?.length && !ev.altKey) {
+        target =
+          nearestCut(target, cuts, (SNAP_PX / rect.width) * duration) ?? target;
+      }
+      setDrag({index, secs: target});
+    };
+    const onUp = () => {
+      removeEventListener('pointermove', onMove);
+      removeEventListener('pointerup', onUp);
+      setDrag(null);
+      if (moved && onRetime) {
+        onRetime(index, target);
+      } else {
+        jumpToTimecode(secs);
+      }
+    };
+    addEventListener('pointermove', onMove);
+    addEventListener('pointerup', onUp);
+  };
+
   const onPlay = () => setIsPlaying(true);
   const onPause = () => setIsPlaying(false);
 
@@ -94,8 +149,20 @@ export default function VideoPlayer({
     setScrubberTime(0);
     setIsPlaying(false);
     setAspectRatio(null);
+    setInPoint(null);
+    setOutPoint(null);
   }, [url]);
 
+  const addSegment = () => {
+    onAddSegment(inPoint, outPoint);
+    setInPoint(null);
+    setOutPoint(null);
+  };
+  const pendingRange =
+    inPoint !== null
+      ? {start: inPoint, end: outPoint ?? currentSecs}
+      : null;
+
   useEffect(() => {
     if (video && requestedTimecode !== null) {
       video.currentTime = requestedTimecode;
@@ -161,24 +228,60 @@ export default function VideoPlayer({
                 onPointerUp={() => setIsScrubbing(false)}
               />
             </div>
-            <div className="timecodeMarkers">
+            {duration > 0 && (segments?.length > 0 || pendingRange) && (
+              <div className="segmentBars">
+                {segments?.map((segment) => (
+                  <div
+                    key={segment.id}
+                    className="segmentBar"
+                    style={{
+                      left: `${(segment.start / duration) * 100}%`,
+                      width: `${((segment.end - segment.start) / duration) * 100}%`,
+                    }}
+                  />
+                ))}
+                {pendingRange && (
+                  <div
+                    className="segmentBar pending"
+                    style={{
+                      left: `${(Math.min(pendingRange.start, pendingRange.end) / duration) * 100}%`,
+                      width: `${(Math.abs(pendingRange.end - pendingRange.start) / duration) * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            )}
+            {duration > 0 && cuts?.length > 0 && (
+              <div className="shotCuts">
+                {cuts.map((cut) => (
+                  <div
+                    key={cut}
+                    className="shotCut"
+                    style={{left: `${(cut / duration) * 100}%`}}
+                  />
+                ))}
+              </div>
+            )}
+            <div className="timecodeMarkers" ref={markersRef}>
               {timecodeList?.map(({time, text, value}, i) => {
-                const secs = timeToSecs(time);
+                const isDragged = drag?.index === i;
+                const secs = isDragged ? drag.secs : timeToSecs(time);
+                if (!Number.isFinite(secs)) return null;
                 const pct = (secs / duration) * 100;
 
                 return (
                   <div
-                    className="timecodeMarker"
+                    className={c('timecodeMarker', {dragging: isDragged})}
                     key={i}
                     style={{left: `${pct}%`}}>
                     <div
                       className="timecodeMarkerTick"
-                      onClick={() => jumpToTimecode(secs)}>
+                      onPointerDown={(e) => startMarkerDrag(e, i, secs)}>
                       <div />
                     </div>
                     <div
                       className={c('timecodeMarkerLabel', {right: pct > 50})}>
-                      <div>{time}</div>
+                      <div>{isDragged ? formatClock(secs) : time}</div>
                       <p>{value || text}</p>
                     </div>
                   </div>
@@ -191,7 +294,42 @@ export default function VideoPlayer({
                   {isPlaying ? 'pause' : 'play_arrow'}
                 </span>
               </button>
-              {formatTime(currentSecs)} / {formatTime(duration)}
+              {onAddSegment && (
+                <div className="segmentControls">
+                  <button
+                    title="Начало сегмента"
+                    onClick={() => setInPoint(currentSecs)}>
+                    <span className="icon">first_page</span>
+                  </button>
+                  <button
+                    title="Конец сегмента"
+                    disabled={inPoint === null}
+                    onClick={() => setOutPoint(currentSecs)}>
+                    <span className="icon">last_page</span>
+                  </button>
+                  {inPoint !== null && outPoint !== null && (
+                    <>
+                      <button
+                        title="Добавить сегмент"
+                        disabled={outPoint === inPoint}
+                        onClick={addSegment}>
+                        <span className="icon">add</span>
+                        {formatClock(Math.min(inPoint, outPoint))}–
+                        {formatClock(Math.max(inPoint, outPoint))}
+                      </button>
+                      <button
+                        title="Сбросить"
+                        onClick={() => {
+                          setInPoint(null);
+                          setOutPoint(null);
+                        }}>
+                        <span className="icon">close</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+              {formatClock(currentSecs)} / {formatClock(duration)}
             </div>
           </div>
         </>
@@ -200,7 +338,9 @@ export default function VideoPlayer({
           <p>
             {isLoadingVideo
               ? 'Обработка видео...'
-              : videoError
+              : missingFileName
+                ? `Видео «${missingFileName}» не сохранено в браузере. Перетащите файл снова, чтобы воспроизвести его.`
+                : videoError
                 ? 'Ошибка обработки видео.'
                 : 'Перетащите видеофайл(ы) сюда, чтобы начать.'}
           </p>
@@ -215,6 +355,16 @@ export default function VideoPlayer({
             <span className="icon">delete_sweep</span> Очистить все
           </button>
         )}
+        <label
+          className="checkboxLabel keepBlobs"
+          title="Сохранять исходные видеофайлы в браузере, чтобы они были доступны после перезагрузки">
+          <input
+            type="checkbox"
+            checked={keepBlobs}
+            onChange={(e) => onKeepBlobsChange(e.target.checked)}
+          />
+          <span>Хранить видео</span>
+        </label>
       </div>
     </div>
   );
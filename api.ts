@@ -4,81 +4,264 @@
 */
 /* tslint:disable */
 
-import {FunctionDeclaration, GoogleGenAI, Type} from '@google/genai';
+import {FunctionDeclaration} from '@google/genai';
+import {sha256Hex} from './contentHash';
+import {createGeminiProvider} from './geminiProvider';
+import {sleep} from './jobQueue';
+import {createMockProvider} from './mockProvider';
+import {createOpenAIProvider} from './openaiProvider';
+import {
+  ClipRange,
+  ModelProvider,
+  ModelResponse,
+  ProviderFile,
+  ProviderSettings,
+  UploadOptions,
+  getProviderSettings,
+  saveProviderSettings,
+} from './provider';
+import {
+  getCachedResponse,
+  getStoredUpload,
+  putCachedResponse,
+  putStoredUpload,
+} from './storage';
+import {UploadError, checkUploadable, toUploadError} from './uploadErrors';
+import {recordUsage} from './usage';
 
 const systemInstruction = `When given a video and a query, call the relevant \
-function only once with the appropriate timecodes and text for the video`;
+function only once with the appropriate arguments for the video`;
 
-const client = new GoogleGenAI({apiKey: process.env.API_KEY});
+const createProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
 
-// FIX: Replaced incorrect `Type.Blob` with `any` for the Gemini file object parameter.
-// The `Type` enum from `@google/genai` is for schema definitions and does not
-// contain a `Blob` type.
-async function generateContent(
+let settings = getProviderSettings();
+let provider = createProvider(settings);
+
+function getProvider() {
+  return provider;
+}
+
+function getCurrentProviderSettings() {
+  return settings;
+}
+
+function setProviderSettings(next: ProviderSettings) {
+  settings = next;
+  saveProviderSettings(next);
+  provider = createProvider(next);
+}
+
+// Handles saved before providers existed have no `provider` field and are
+// always Gemini uploads.
+function isFileUsable(file: ProviderFile | null) {
+  return (
+    !!file &&
+    (file.provider || 'gemini') === provider.id &&
+    provider.persistentFiles
+  );
+}
+
+// What a call is recorded under in the usage history.
+interface UsageTag {
+  mode: string;
+  video?: {id: string; name: string} | null;
+}
+
+const RESPONSE_CACHE_LIMIT = 50 * 1024 * 1024;
+
+interface CacheOptions {
+  // Content hash of the video, see contentHash.ts.
+  hash: string;
+  // Skips the lookup; the fresh response replaces the cached one.
+  regenerate?: boolean;
+}
+
+// The declared functions are part of the key: two modes may share a prompt
+// but expect different calls.
+const responseCacheKey = (
+  hash: string,
   text: string,
   functionDeclarations: FunctionDeclaration[] | null,
-  file: any,
-) {
-  const config: any = {
-    temperature: 0.5,
-  };
+  temperature?: number,
+  clip?: ClipRange,
+  model?: string,
+) =>
+  sha256Hex(
+    JSON.stringify([
+      hash,
+      provider.id,
+      model || provider.model,
+      temperature ?? null,
+      text,
+      (functionDeclarations || []).map((fd) => fd.name),
+      clip ? [clip.start, clip.end] : null,
+    ]),
+  );
 
-  if (functionDeclarations) {
-    config.systemInstruction = systemInstruction;
-    config.tools = [{functionDeclarations}];
+async function generateContent(
+  text: string,
+  functionDeclarations: FunctionDeclaration[] | null,
+  file: ProviderFile,
+  options: {
+    temperature?: number;
+    signal?: AbortSignal;
+    usage?: UsageTag;
+    cache?: CacheOptions;
+    clip?: ClipRange;
+    // Model other than the provider's configured one.
+    model?: string;
+    // Streams the response text; a cached response arrives in one piece.
+    onText?: (text: string) => void;
+  } = {},
+): Promise<ModelResponse> {
+  const cacheKey = options.cache
+    ? await responseCacheKey(
+        options.cache.hash,
+        text,
+        functionDeclarations,
+        options.temperature,
+        options.clip,
+        options.model,
+      )
+    : null;
+  if (cacheKey && !options.cache.regenerate) {
+    const cached = await getCachedResponse(cacheKey).catch((err) => {
+      console.error('Failed to read response cache', err);
+      return null;
+    });
+    if (cached) {
+      options.onText?.(cached.response.text);
+      return {...cached.response, cached: true};
+    }
   }
 
-  const response = await client.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        {text},
-        {
-          fileData: {
-            mimeType: file.mimeType,
-            fileUri: file.uri,
-          },
-        },
-      ],
-    },
-    config,
+  const response = await provider.generate({
+    prompt: text,
+    file,
+    functionDeclarations,
+    systemInstruction,
+    temperature: options.temperature,
+    signal: options.signal,
+    clip: options.clip,
+    model: options.model,
+    onText: options.onText,
   });
-
+  if (response.usage) {
+    recordUsage(response.usage, {
+      provider: provider.id,
+      model: response.model,
+      mode: options.usage?.mode || '',
+      videoId: options.usage?.video?.id || null,
+      videoName: options.usage?.video?.name || '',
+    });
+  }
+  if (cacheKey) {
+    const {text, functionCalls, model} = response;
+    const saved = {text, functionCalls, model};
+    putCachedResponse(
+      {
+        key: cacheKey,
+        response: saved,
+        size: new Blob([JSON.stringify(saved)]).size,
+        usedAt: Date.now(),
+      },
+      RESPONSE_CACHE_LIMIT,
+    ).catch((err) => console.error('Failed to cache response', err));
+  }
   return response;
 }
 
-async function uploadFile(file: File) {
-  const blob = new Blob([file], {type: file.type});
+// Server-side processing of long 4K clips can take several minutes; polling
+// backs off up to POLL_MAX_DELAY and gives up after POLL_MAX_WAIT.
+const POLL_INITIAL_DELAY = 2000;
+const POLL_MAX_DELAY = 15000;
+const POLL_MAX_WAIT = 20 * 60 * 1000;
 
-  console.log('Загрузка...');
-  const uploadedFile = await client.files.upload({
-    file: blob,
-    config: {
-      displayName: file.name,
-    },
-  });
-  console.log('Загружено.');
-  console.log('Получение...');
-  let getFile = await client.files.get({
-    name: uploadedFile.name,
-  });
-  while (getFile.state === 'PROCESSING') {
-    getFile = await client.files.get({
-      name: uploadedFile.name,
-    });
-    console.log(`текущий статус файла: ${getFile.state}`);
-    console.log('Файл все еще обрабатывается, повторная попытка через 5 секунд');
-
-    await new Promise((resolve) => {
-      setTimeout(resolve, 5000);
-    });
+// An earlier upload of the same content is reused while the provider
+// still has it.
+async function findUpload(hash: string, signal?: AbortSignal) {
+  const stored = await getStoredUpload(`${provider.id}:${hash}`).catch(
+    () => null,
+  );
+  if (!stored) return null;
+  try {
+    const file = await provider.poll(stored, signal);
+    return file.state === 'ACTIVE' ? file : null;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return null;
   }
-  console.log(getFile.state);
-  if (getFile.state === 'FAILED') {
-    throw new Error('Ошибка обработки файла.');
+}
+
+async function uploadFile(
+  file: File,
+  {
+    onProgress,
+    onProcessing,
+    signal,
+    hash,
+  }: UploadOptions & {onProcessing?: () => void; hash?: string} = {},
+) {
+  // The size and type limits are those of the Gemini Files API.
+  if (provider.id === 'gemini') checkUploadable(file);
+  try {
+    const reusable = hash && provider.persistentFiles;
+    if (reusable) {
+      const existing = await findUpload(hash, signal);
+      if (existing) {
+        console.log('Файл уже загружен, повторная загрузка не нужна.');
+        return existing;
+      }
+    }
+    console.log('Загрузка...');
+    const uploadedFile = await provider.upload(file, {onProgress, signal});
+    console.log('Загружено.');
+    onProcessing?.();
+
+    const startedAt = Date.now();
+    let delay = POLL_INITIAL_DELAY;
+    let getFile = await provider.poll(uploadedFile, signal);
+    while (getFile.state === 'PROCESSING') {
+      if (Date.now() - startedAt > POLL_MAX_WAIT) {
+        throw new UploadError(
+          'timeout',
+          `${Math.round(POLL_MAX_WAIT / 60000)} мин`,
+        );
+      }
+      console.log(`текущий статус файла: ${getFile.state}`);
+      await sleep(delay, signal);
+      delay = Math.min(delay * 1.5, POLL_MAX_DELAY);
+      getFile = await provider.poll(uploadedFile, signal);
+    }
+    if (getFile.state === 'FAILED') {
+      throw new UploadError('processingFailed', getFile.error?.message);
+    }
+    console.log('Готово');
+    if (reusable) {
+      putStoredUpload(`${provider.id}:${hash}`, getFile).catch((err) =>
+        console.error('Failed to save upload handle', err),
+      );
+    }
+    return getFile;
+  } catch (e) {
+    throw toUploadError(e);
   }
-  console.log('Готово');
-  return getFile;
 }
 
-export {generateContent, uploadFile};
\ No newline at end of file
+export {
+  generateContent,
+  getCurrentProviderSettings,
+  getProvider,
+  isFileUsable,
+  setProviderSettings,
+  uploadFile,
+};
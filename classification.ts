@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Stock category and content flags returned by `set_stock_classification`.
+// Categories use Adobe Stock's numbering; other agencies get a mapped name.
+
+import {StockClassification} from './types';
+
+export const adobeCategories: Record<number, string> = {
+  1: 'Animals',
+  2: 'Buildings and Architecture',
+  3: 'Business',
+  4: 'Drinks',
+  5: 'The Environment',
+  6: 'States of Mind',
+  7: 'Food',
+  8: 'Graphic Resources',
+  9: 'Hobbies and Leisure',
+  10: 'Industry',
+  11: 'Landscapes',
+  12: 'Lifestyle',
+  13: 'People',
+  14: 'Plants and Flowers',
+  15: 'Culture and Religion',
+  16: 'Science',
+  17: 'Social Issues',
+  18: 'Sports',
+  19: 'Technology',
+  20: 'Transport',
+  21: 'Travel',
+};
+
+// Closest Shutterstock category for each Adobe Stock one.
+const shutterstockCategories: Record<number, string> = {
+  1: 'Animals/Wildlife',
+  2: 'Buildings/Landmarks',
+  3: 'Business/Finance',
+  4: 'Food and drink',
+  5: 'Nature',
+  6: 'Abstract',
+  7: 'Food and drink',
+  8: 'Backgrounds/Textures',
+  9: 'Sports/Recreation',
+  10: 'Industrial',
+  11: 'Nature',
+  12: 'People',
+  13: 'People',
+  14: 'Nature',
+  15: 'Religion',
+  16: 'Science',
+  17: 'Miscellaneous',
+  18: 'Sports/Recreation',
+  19: 'Technology',
+  20: 'Transportation',
+  21: 'Parks/Outdoor',
+};
+
+export const shutterstockCategory = (category?: number) =>
+  shutterstockCategories[category] || '';
+
+export const classificationFlags: {
+  key: Exclude<keyof StockClassification, 'category'>;
+  label: string;
+}[] = [
+  {key: 'editorial', label: 'Редакционное'},
+  {key: 'aiGenerated', label: 'Создано ИИ'},
+  {key: 'containsPeople', label: 'Есть люди'},
+  {key: 'looped', label: 'Зациклено'},
+];
+
+export class ClassificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassificationError';
+  }
+}
+
+export const validateClassificationArgs = (args: any): StockClassification => {
+  if (!args || typeof args !== 'object') {
+    throw new ClassificationError('Модель не вернула классификацию.');
+  }
+  const category = Number(args.category);
+  if (!adobeCategories[category]) {
+    throw new ClassificationError(`Неизвестная категория: ${args.category}.`);
+  }
+  return {
+    category,
+    editorial: args.editorial === true,
+    aiGenerated: args.aiGenerated === true,
+    containsPeople: args.containsPeople === true,
+    looped: args.looped === true,
+  };
+};
+
+export const classificationFromResponse = (resp: {
+  functionCalls: {name: string; args: any}[];
+}): StockClassification => {
+  const call = resp.functionCalls.find(
+    (fc) => fc.name === 'set_stock_classification',
+  );
+  if (!call) {
+    throw new ClassificationError('Модель не вызвала set_stock_classification.');
+  }
+  return validateClassificationArgs(call.args);
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Comparison runs: the same videos through several SEO configurations, to
+// tune prompts against each other before switching the default.
+
+import {parseKeywords} from './stockExport';
+import {SeoData} from './types';
+
+const STORAGE_KEY = 'compareVariants';
+
+// One configuration. The prompt comes from an SEO mode, so prompt variants
+// are made in the mode editor.
+export interface CompareVariant {
+  id: string;
+  modeId: string;
+  // Empty for the provider's configured model.
+  model: string;
+  // Null for the mode's own temperature.
+  temperature: number | null;
+}
+
+export interface CompareResult {
+  seoData: SeoData;
+  // Additional context of the run, saved with the picked result.
+  context: string;
+  cached: boolean;
+}
+
+export const newVariant = (modeId: string): CompareVariant => ({
+  id: self.crypto.randomUUID(),
+  modeId,
+  model: '',
+  temperature: null,
+});
+
+export const loadVariants = (): CompareVariant[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((v) => v?.id && v.modeId) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveVariants = (variants: CompareVariant[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(variants));
+
+// Results are keyed by video and variant settings, so an edited variant
+// shows no stale result. The key doubles as the job id.
+export const compareJobId = (
+  videoId: string,
+  {id, modeId, model, temperature}: CompareVariant,
+) => `compare:${videoId}:${id}:${modeId}:${model}:${temperature ?? ''}`;
+
+export type WordChange = {text: string; kind: 'same' | 'added' | 'removed'};
+
+// Word-level diff of two titles, from `from` to `to`.
+export const diffWords = (from: string, to: string): WordChange[] => {
+  const a = from.split(/\s+/).filter(Boolean);
+  const b = to.split(/\s+/).filter(Boolean);
+  const norm = (word: string) => word.toLowerCase().replace(/[.,;:!?"]/g, '');
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        norm(a[i]) === norm(b[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: WordChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && norm(a[i]) === norm(b[j])) {
+      changes.push({text: b[j], kind: 'same'});
+      i++;
+      j++;
+    } else if (
+      j === b.length ||
+      (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      changes.push({text: a[i++], kind: 'removed'});
+    } else {
+      changes.push({text: b[j++], kind: 'added'});
+    }
+  }
+  return changes;
+};
+
+// Keywords of `keywords` that `baseline` lacks, and the other way round.
+export const diffKeywords = (baseline: string, keywords: string) => {
+  const base = parseKeywords(baseline);
+  const list = parseKeywords(keywords);
+  const baseSet = new Set(base.map((k) => k.toLowerCase()));
+  const set = new Set(list.map((k) => k.toLowerCase()));
+  return {
+    added: list.filter((k) => !baseSet.has(k.toLowerCase())),
+    removed: base.filter((k) => !set.has(k.toLowerCase())),
+    shared: list.filter((k) => baseSet.has(k.toLowerCase())).length,
+  };
+};
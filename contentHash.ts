@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Content hashes identify a clip independently of its name, so a file added
+// again can reuse an earlier upload and cached responses.
+
+// Files are hashed chunk by chunk so a multi-gigabyte clip never sits in
+// memory at once; the hash covers the chunk digests and the size.
+const CHUNK_SIZE = 16 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)]
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+export const sha256Hex = async (data: string | BufferSource) =>
+  toHex(
+    await crypto.subtle.digest(
+      'SHA-256',
+      typeof data === 'string' ? new TextEncoder().encode(data) : data,
+    ),
+  );
+
+export async function hashBlobContent(blob: Blob) {
+  const digests = new Uint8Array(Math.ceil(blob.size / CHUNK_SIZE) * 32 + 8);
+  for (let offset = 0, i = 0; offset < blob.size; offset += CHUNK_SIZE, i++) {
+    const chunk = await blob.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', chunk);
+    digests.set(new Uint8Array(digest), i * 32);
+  }
+  new DataView(digests.buffer).setBigUint64(
+    digests.length - 8,
+    BigInt(blob.size),
+  );
+  return sha256Hex(digests);
+}
+
+let worker: Worker | null = null;
+// Set once the worker failed to load or crashed; hashing stays on the main
+// thread from then on.
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  {
+    file: Blob;
+    resolve: (hash: string) => void;
+    reject: (error: Error) => void;
+  }
+>();
+const hashes = new WeakMap<Blob, Promise<string>>();
+
+// Requests the worker will never answer are hashed on the main thread.
+const onWorkerError = (event: Event) => {
+  console.error('Hash worker failed, hashing on the main thread', event);
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  const requests = [...pending.values()];
+  pending.clear();
+  requests.forEach(({file, resolve, reject}) =>
+    hashBlobContent(file).then(resolve, reject),
+  );
+};
+
+const getWorker = () => {
+  if (workerFailed) throw new Error('Hash worker unavailable');
+  if (!worker) {
+    worker = new Worker(new URL('./hashWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.onmessage = ({data}) => {
+      const request = pending.get(data.id);
+      pending.delete(data.id);
+      if (data.error) request?.reject(new Error(data.error));
+      else request?.resolve(data.hash);
+    };
+    worker.onerror = onWorkerError;
+    worker.onmessageerror = onWorkerError;
+  }
+  return worker;
+};
+
+// Hashes in a worker to keep the UI responsive; falls back to the main
+// thread where module workers are unavailable or the worker fails.
+export function hashFile(file: Blob) {
+  let hash = hashes.get(file);
+  if (!hash) {
+    hash = new Promise<string>((resolve, reject) => {
+      let hashWorker: Worker;
+      try {
+        hashWorker = getWorker();
+      } catch {
+        hashBlobContent(file).then(resolve, reject);
+        return;
+      }
+      const id = nextRequestId++;
+      pending.set(id, {file, resolve, reject});
+      hashWorker.postMessage({id, file});
+    });
+    hashes.set(file, hash);
+    hash.catch(() => hashes.delete(file));
+  }
+  return hash;
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Differences between two cue lists, for reviewing model corrections before
+// they replace the current cues.
+
+import {TimecodeItem} from './cueEdits';
+
+export type CueChangeKind = 'same' | 'changed' | 'added' | 'removed';
+
+export interface CueChange {
+  kind: CueChangeKind;
+  before?: TimecodeItem;
+  after?: TimecodeItem;
+}
+
+const cueKey = (cue: TimecodeItem) => `${cue.time}\n${cue.text}`;
+
+// Longest common subsequence of identical cues; the removed and added cues
+// between two matches are paired up as changes.
+export const diffCues = (
+  before: TimecodeItem[],
+  after: TimecodeItem[],
+): CueChange[] => {
+  const a = before.map(cueKey);
+  const b = after.map(cueKey);
+  const lengths = Array.from({length: a.length + 1}, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: CueChange[] = [];
+  let removed: TimecodeItem[] = [];
+  let added: TimecodeItem[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({kind: 'changed', before: removed[k], after: added[k]});
+    }
+    removed.slice(paired).forEach((cue) =>
+      changes.push({kind: 'removed', before: cue}),
+    );
+    added.slice(paired).forEach((cue) =>
+      changes.push({kind: 'added', after: cue}),
+    );
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      changes.push({kind: 'same', before: before[i++], after: after[j++]});
+    } else if (
+      j === b.length ||
+      (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+  return changes;
+};
+
+export const countChanges = (changes: CueChange[]) =>
+  changes.filter((change) => change.kind !== 'same').length;
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {mergeWithNext, retimeCue, shiftCues, snapCues} from './cueEdits';
+
+describe('shiftCues', () => {
+  it('moves the end with the start', () => {
+    expect(shiftCues([{time: '00:10', end: '00:12', text: 'a'}], 5)).toEqual([
+      {time: '00:15', end: '00:17', text: 'a'},
+    ]);
+  });
+
+  it('keeps cues without an end as they are', () => {
+    expect(shiftCues([{time: '00:10', text: 'a'}], -3)).toEqual([
+      {time: '00:07', text: 'a'},
+    ]);
+  });
+
+  it('drops an end that would not follow the clamped start', () => {
+    expect(shiftCues([{time: '00:02', end: '00:03', text: 'a'}], -5)).toEqual([
+      {time: '00:00', text: 'a'},
+    ]);
+  });
+});
+
+describe('retimeCue', () => {
+  it('keeps the duration', () => {
+    const list = [
+      {time: '00:01', end: '00:03', text: 'a'},
+      {time: '00:05', text: 'b'},
+    ];
+    expect(retimeCue(list, 0, 10)).toEqual([
+      {time: '00:05', text: 'b'},
+      {time: '00:10', end: '00:12', text: 'a'},
+    ]);
+  });
+});
+
+describe('snapCues', () => {
+  it('moves the end with the snapped start', () => {
+    expect(
+      snapCues([{time: '00:10', end: '00:12.500', text: 'a'}], [9.5]),
+    ).toEqual([{time: '00:09.500', end: '00:12', text: 'a'}]);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('takes the end of the next cue', () => {
+    const list = [
+      {time: '00:01', end: '00:02', text: 'a'},
+      {time: '00:02', end: '00:04', text: 'b'},
+    ];
+    expect(mergeWithNext(list, 0)).toEqual([
+      {time: '00:01', end: '00:04', text: 'a b'},
+    ]);
+  });
+
+  it('drops the end when the next cue has none', () => {
+    const list = [
+      {time: '00:01', end: '00:02', text: 'a'},
+      {time: '00:02', text: 'b'},
+    ];
+    expect(mergeWithNext(list, 0)).toEqual([{time: '00:01', text: 'a b'}]);
+  });
+});
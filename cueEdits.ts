@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Pure edits on a `timecodeList`. Every function returns a new sorted list.
+
+import {nearestCut} from './shotDetection';
+import {secsToTime, timeToSecs} from './timecode';
+
+export interface TimecodeItem {
+  time: string;
+  text: string;
+  // Set for imported subtitles and models that report durations.
+  end?: string;
+  [key: string]: any;
+}
+
+const sortByTime = (list: TimecodeItem[]) =>
+  [...list].sort((a, b) => timeToSecs(a.time) - timeToSecs(b.time));
+
+// Moves a cue to start at `secs` (never before 0:00). An `end` moves along,
+// keeping the cue's duration; it is dropped if it would not follow the start.
+const moveCue = (cue: TimecodeItem, secs: number): TimecodeItem => {
+  const start = Math.max(0, secs);
+  const {end, ...moved} = {...cue, time: secsToTime(start)};
+  if (end === undefined) return moved;
+  const movedEnd = timeToSecs(end) + secs - timeToSecs(cue.time);
+  return movedEnd > start ? {...moved, end: secsToTime(movedEnd)} : moved;
+};
+
+export const updateCueText = (
+  list: TimecodeItem[],
+  index: number,
+  text: string,
+) => list.map((cue, i) => (i === index ? {...cue, text} : cue));
+
+export const insertCue = (list: TimecodeItem[], secs: number, text = '') =>
+  sortByTime([...list, {time: secsToTime(secs), text}]);
+
+export const deleteCue = (list: TimecodeItem[], index: number) =>
+  list.filter((_, i) => i !== index);
+
+// Merges a cue with the one after it, keeping the earlier start time and
+// the later end.
+export const mergeWithNext = (list: TimecodeItem[], index: number) => {
+  const next = list[index + 1];
+  if (!next) return list;
+  return list
+    .map((cue, i) => {
+      if (i !== index) return cue;
+      const {end: _end, ...merged} = {
+        ...cue,
+        text: `${cue.text} ${next.text}`.trim(),
+      };
+      return next.end === undefined ? merged : {...merged, end: next.end};
+    })
+    .filter((_, i) => i !== index + 1);
+};
+
+export const retimeCue = (
+  list: TimecodeItem[],
+  index: number,
+  secs: number,
+) =>
+  sortByTime(
+    list.map((cue, i) => (i === index ? moveCue(cue, secs) : cue)),
+  );
+
+// Shifts every cue by `offset` seconds; cues never move before 0:00.
+export const shiftCues = (list: TimecodeItem[], offset: number) =>
+  list.map((cue) => moveCue(cue, timeToSecs(cue.time) + offset));
+
+// Moves cues that start close to a scene cut onto the cut.
+export const snapCues = (list: TimecodeItem[], cuts: number[]) =>
+  sortByTime(
+    list.map((cue) => {
+      const cut = nearestCut(timeToSecs(cue.time), cuts);
+      return cut === null ? cue : moveCue(cue, cut);
+    }),
+  );
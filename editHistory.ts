@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useCallback, useRef, useState} from 'react';
+
+const MAX_HISTORY = 100;
+
+interface Stacks<T> {
+  past: T[];
+  future: T[];
+}
+
+// Undo/redo stacks kept per key (video id), in memory only.
+export function useEditHistory<T>() {
+  const stacks = useRef(new Map<string, Stacks<T>>());
+  // Bumped on every change so canUndo/canRedo re-render.
+  const [, setVersion] = useState(0);
+
+  const get = (key: string) => {
+    if (!stacks.current.has(key)) {
+      stacks.current.set(key, {past: [], future: []});
+    }
+    return stacks.current.get(key);
+  };
+
+  const record = useCallback((key: string, previous: T) => {
+    const s = get(key);
+    s.past = [...s.past.slice(-(MAX_HISTORY - 1)), previous];
+    s.future = [];
+    setVersion((v) => v + 1);
+  }, []);
+
+  const undo = useCallback((key: string, current: T): T | undefined => {
+    const s = get(key);
+    const previous = s.past.pop();
+    if (previous === undefined) return undefined;
+    s.future.push(current);
+    setVersion((v) => v + 1);
+    return previous;
+  }, []);
+
+  const redo = useCallback((key: string, current: T): T | undefined => {
+    const s = get(key);
+    const next = s.future.pop();
+    if (next === undefined) return undefined;
+    s.past.push(current);
+    setVersion((v) => v + 1);
+    return next;
+  }, []);
+
+  const clear = useCallback((key?: string) => {
+    if (key) stacks.current.delete(key);
+    else stacks.current.clear();
+    setVersion((v) => v + 1);
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: (key: string) => !!stacks.current.get(key)?.past.length,
+    canRedo: (key: string) => !!stacks.current.get(key)?.future.length,
+  };
+}
@@ -33,6 +33,10 @@ const functions: FunctionDeclaration[] = [
               time: {
                 type: Type.STRING,
               },
+              end: {
+                type: Type.STRING,
+                description: 'Optional end time of the cue',
+              },
               text: {
                 type: Type.STRING,
               },
@@ -44,10 +48,138 @@ const functions: FunctionDeclaration[] = [
       required: ['timecodes'],
     },
   },
+  {
+    name: 'set_timecodes_with_numeric_values',
+    description:
+      'Set the timecodes for the video with an associated numeric score',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timecodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: {
+                type: Type.STRING,
+              },
+              value: {
+                type: Type.NUMBER,
+              },
+            },
+            required: ['time', 'value'],
+          },
+        },
+      },
+      required: ['timecodes'],
+    },
+  },
+  {
+    name: 'set_seo_metadata',
+    description:
+      'Set the SEO metadata for a stock video: English title, its Russian translation and English keywords',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: {
+          type: Type.STRING,
+          description: 'SEO title in English',
+        },
+        russianTitle: {
+          type: Type.STRING,
+          description: 'Russian translation of the title',
+        },
+        keywords: {
+          type: Type.ARRAY,
+          description: 'Single-word English keywords, most relevant first',
+          items: {
+            type: Type.STRING,
+          },
+        },
+      },
+      required: ['title', 'russianTitle', 'keywords'],
+    },
+  },
+  {
+    name: 'set_stock_classification',
+    description:
+      'Set the stock category and content flags of the video for agency uploads',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        category: {
+          type: Type.INTEGER,
+          description:
+            'Adobe Stock category number: 1 Animals, 2 Buildings and Architecture, 3 Business, 4 Drinks, 5 The Environment, 6 States of Mind, 7 Food, 8 Graphic Resources, 9 Hobbies and Leisure, 10 Industry, 11 Landscapes, 12 Lifestyle, 13 People, 14 Plants and Flowers, 15 Culture and Religion, 16 Science, 17 Social Issues, 18 Sports, 19 Technology, 20 Transport, 21 Travel',
+        },
+        editorial: {
+          type: Type.BOOLEAN,
+          description:
+            'Whether the video is only usable for editorial purposes (news, recognizable brands or people without releases)',
+        },
+        aiGenerated: {
+          type: Type.BOOLEAN,
+          description: 'Whether the video looks created with generative AI',
+        },
+        containsPeople: {
+          type: Type.BOOLEAN,
+          description: 'Whether people appear in the video',
+        },
+        looped: {
+          type: Type.BOOLEAN,
+          description: 'Whether the video loops seamlessly',
+        },
+      },
+      required: [
+        'category',
+        'editorial',
+        'aiGenerated',
+        'containsPeople',
+        'looped',
+      ],
+    },
+  },
+  {
+    name: 'set_release_risks',
+    description:
+      'Report what in the video would require a model or property release for commercial stock use',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        logos: {
+          type: Type.ARRAY,
+          description: 'Recognizable logos, brands or trademarks, in English',
+          items: {
+            type: Type.STRING,
+          },
+        },
+        recognizablePeople: {
+          type: Type.BOOLEAN,
+          description: 'Whether any person can be recognized by their face',
+        },
+        landmarks: {
+          type: Type.ARRAY,
+          description:
+            'Recognizable landmarks, buildings or private property, in English',
+          items: {
+            type: Type.STRING,
+          },
+        },
+        notes: {
+          type: Type.STRING,
+          description: 'Short explanation of the findings',
+        },
+      },
+      required: ['logos', 'recognizablePeople', 'landmarks'],
+    },
+  },
 ];
 
+// Only the functions named in `fnMap` are offered to the model.
 export default (fnMap) =>
-  functions.map((fn) => ({
-    ...fn,
-    callback: fnMap[fn.name],
-  }));
+  functions
+    .filter((fn) => fn.name in fnMap)
+    .map((fn) => ({
+      ...fn,
+      callback: fnMap[fn.name],
+    }));
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  FunctionCallingConfigMode,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+} from '@google/genai';
+import {abortError, abortable} from './jobQueue';
+import {
+  ModelProvider,
+  ProviderFile,
+  ProviderSettings,
+  UploadOptions,
+  providerLabels,
+} from './provider';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const UPLOAD_URL =
+  'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+// The SDK uploads with fetch, which reports no progress, so the resumable
+// upload protocol is driven with XHR here.
+const sendWithProgress = (
+  url: string,
+  file: File,
+  {onProgress, signal}: UploadOptions,
+) =>
+  new Promise<any>((resolve, reject) => {
+    // Aborted while the upload session was being started.
+    if (signal?.aborted) return reject(abortError());
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('X-Goog-Upload-Command', 'upload, finalize');
+    xhr.setRequestHeader('X-Goog-Upload-Offset', '0');
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText).file);
+      } else {
+        reject(
+          Object.assign(new Error(xhr.responseText || xhr.statusText), {
+            status: xhr.status,
+          }),
+        );
+      }
+    };
+    xhr.onerror = () => reject(new TypeError('Network error'));
+    xhr.onabort = () => reject(abortError());
+    signal?.addEventListener('abort', () => xhr.abort(), {once: true});
+    xhr.send(file);
+  });
+
+// Thinking tokens are billed as output.
+const toUsage = (usage?: GenerateContentResponseUsageMetadata) =>
+  usage && {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens:
+      (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    videoTokens:
+      usage.promptTokensDetails?.find((d) => d.modality === 'VIDEO')
+        ?.tokenCount || 0,
+  };
+
+const toProviderFile = (file: any): ProviderFile => ({
+  ...file,
+  provider: 'gemini',
+});
+
+export function createGeminiProvider(settings: ProviderSettings): ModelProvider {
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  const client = new GoogleGenAI({apiKey});
+  const model = settings.model || DEFAULT_MODEL;
+
+  return {
+    id: 'gemini',
+    label: providerLabels.gemini,
+    model,
+    persistentFiles: true,
+
+    async upload(file, options = {}) {
+      const start = await fetch(`${UPLOAD_URL}?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(file.size),
+          'X-Goog-Upload-Header-Content-Type': file.type,
+        },
+        body: JSON.stringify({file: {display_name: file.name}}),
+        signal: options.signal,
+      });
+      const uploadUrl = start.headers.get('x-goog-upload-url');
+      if (!start.ok || !uploadUrl) {
+        throw Object.assign(new Error(await start.text()), {
+          status: start.status,
+        });
+      }
+      return toProviderFile(await sendWithProgress(uploadUrl, file, options));
+    },
+
+    async poll(file, signal) {
+      return toProviderFile(
+        await abortable(client.files.get({name: file.name}), signal),
+      );
+    },
+
+    async generate({
+      prompt,
+      file,
+      functionDeclarations,
+      systemInstruction,
+      temperature,
+      signal,
+      clip,
+      model: requestModel = model,
+      onText,
+    }) {
+      const config: any = {
+        temperature: temperature ?? 0.5,
+      };
+
+      if (functionDeclarations) {
+        config.systemInstruction = systemInstruction;
+        config.tools = [{functionDeclarations}];
+        config.toolConfig = {
+          functionCallingConfig: {mode: FunctionCallingConfigMode.ANY},
+        };
+      }
+
+      const params = {
+        model: requestModel,
+        contents: {
+          parts: [
+            {text: prompt},
+            {
+              fileData: {
+                mimeType: file.mimeType,
+                fileUri: file.uri,
+              },
+              ...(clip && {
+                videoMetadata: {
+                  startOffset: `${clip.start}s`,
+                  endOffset: `${clip.end}s`,
+                },
+              }),
+            },
+          ],
+        },
+        config,
+      };
+
+      if (onText) {
+        // Chunks carry text deltas; function calls arrive whole. Usage is
+        // reported with the last chunk.
+        const stream = await abortable(
+          client.models.generateContentStream(params),
+          signal,
+        );
+        let text = '';
+        const functionCalls = [];
+        let usage;
+        try {
+          for (;;) {
+            const {value: chunk, done} = await abortable(stream.next(), signal);
+            if (done) break;
+            text += chunk.text || '';
+            functionCalls.push(...(chunk.functionCalls || []));
+            usage = chunk.usageMetadata || usage;
+            onText(text);
+          }
+        } finally {
+          if (signal?.aborted) stream.return(undefined);
+        }
+        return {
+          text,
+          functionCalls: functionCalls.map(({name, args}) => ({name, args})),
+          model: requestModel,
+          usage: toUsage(usage),
+        };
+      }
+
+      // The SDK has no cancellation, so an aborted request is only abandoned.
+      const response = await abortable(
+        client.models.generateContent(params),
+        signal,
+      );
+
+      return {
+        text: response.text || '',
+        functionCalls: (response.functionCalls || []).map(({name, args}) => ({
+          name,
+          args,
+        })),
+        model: requestModel,
+        usage: toUsage(response.usageMetadata),
+        raw: response,
+      };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {hashBlobContent} from './contentHash';
+
+self.addEventListener('message', async (e: MessageEvent) => {
+  const {id, file} = e.data;
+  try {
+    self.postMessage({id, hash: await hashBlobContent(file)});
+  } catch (error) {
+    self.postMessage({id, error: String(error)});
+  }
+});
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobStatus {
+  state: JobState;
+  attempt?: number;
+  error?: string;
+}
+
+export interface QueueOptions {
+  concurrency: number;
+  retries?: number;
+  // First backoff delay in ms; doubles on every retry.
+  baseDelay?: number;
+  signal?: AbortSignal;
+  onStatus?: (id: string, status: JobStatus) => void;
+}
+
+export type JobResult<R> =
+  | {id: string; ok: true; value: R}
+  | {id: string; ok: false; error: unknown};
+
+const CONCURRENCY_KEY = 'batchConcurrency';
+export const DEFAULT_CONCURRENCY = 3;
+const MAX_BACKOFF = 60000;
+
+export const getConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 ? Math.floor(stored) : DEFAULT_CONCURRENCY;
+};
+
+export const setConcurrency = (value: number) =>
+  localStorage.setItem(CONCURRENCY_KEY, String(Math.max(1, Math.floor(value))));
+
+export const abortError = () => new DOMException('Отменено', 'AbortError');
+
+export const isAbortError = (e: unknown) =>
+  e instanceof DOMException && e.name === 'AbortError';
+
+// Rate limits and server-side failures are worth retrying; everything else
+// (bad request, invalid response) would fail the same way again.
+export const isRetryableError = (e: any) => {
+  if (typeof e?.retryable === 'boolean') return e.retryable;
+  const status =
+    e?.status ??
+    e?.statusCode ??
+    Number(String(e?.message).match(/got status: (\d{3})/)?.[1]);
+  if (status === 429 || status >= 500) return true;
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|Failed to fetch/i.test(
+    String(e?.message),
+  );
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+// For APIs without native cancellation: rejects as soon as the signal aborts,
+// leaving the underlying request to finish and be ignored.
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal) =>
+  signal
+    ? new Promise<T>((resolve, reject) => {
+        if (signal.aborted) return reject(abortError());
+        const onAbort = () => reject(abortError());
+        signal.addEventListener('abort', onAbort, {once: true});
+        promise.then(resolve, reject).finally(() =>
+          signal.removeEventListener('abort', onAbort),
+        );
+      })
+    : promise;
+
+export async function withRetry<R>(
+  fn: (attempt: number) => Promise<R>,
+  {
+    retries = 4,
+    baseDelay = 2000,
+    signal,
+    onRetry,
+  }: {
+    retries?: number;
+    baseDelay?: number;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, error: unknown) => void;
+  } = {},
+): Promise<R> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await fn(attempt);
+    } catch (e) {
+      if (isAbortError(e) || attempt > retries || !isRetryableError(e)) {
+        throw e;
+      }
+      onRetry?.(attempt, e);
+      const delay = Math.min(baseDelay * 2 ** (attempt - 1), MAX_BACKOFF);
+      await sleep(delay * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+}
+
+// Runs `worker` for every item with at most `concurrency` jobs in flight.
+// Never rejects: each item's outcome is reported in the results.
+export async function runQueue<T extends {id: string}, R>(
+  items: T[],
+  worker: (item: T, signal?: AbortSignal) => Promise<R>,
+  {concurrency, retries, baseDelay, signal, onStatus}: QueueOptions,
+): Promise<JobResult<R>[]> {
+  const results: JobResult<R>[] = [];
+  const pending = [...items];
+  items.forEach((item) => onStatus?.(item.id, {state: 'queued'}));
+
+  const next = async () => {
+    while (pending.length) {
+      const item = pending.shift();
+      if (signal?.aborted) {
+        onStatus?.(item.id, {state: 'cancelled'});
+        results.push({id: item.id, ok: false, error: abortError()});
+        continue;
+      }
+      onStatus?.(item.id, {state: 'running', attempt: 1});
+      try {
+        const value = await withRetry(() => worker(item, signal), {
+          retries,
+          baseDelay,
+          signal,
+          onRetry: (attempt, error) =>
+            onStatus?.(item.id, {
+              state: 'running',
+              attempt: attempt + 1,
+              error: (error as Error).message,
+            }),
+        });
+        onStatus?.(item.id, {state: 'done'});
+        results.push({id: item.id, ok: true, value});
+      } catch (error) {
+        onStatus?.(item.id, {
+          state: isAbortError(error) ? 'cancelled' : 'failed',
+          error: (error as Error).message,
+        });
+        results.push({id: item.id, ok: false, error});
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({length: Math.max(1, Math.min(concurrency, items.length))}, next),
+  );
+  return results;
+}
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Checks generated SEO metadata against the requirements of the SEO prompt in
+// modes.ts: exactly 49 single-word keywords, no repeats of title words, and
+// the user's additional context in the title and in the first 10 keywords.
+// With a local probe it also catches technical claims the file does not meet.
+
+import {parseKeywords} from './stockExport';
+import {SeoData, VideoProbe} from './types';
+
+export const KEYWORD_COUNT = 49;
+export const CONTEXT_KEYWORD_WINDOW = 10;
+
+export type KeywordRule =
+  | 'count'
+  | 'duplicates'
+  | 'multiWord'
+  | 'titleOverlap'
+  | 'contextInTitle'
+  | 'contextInKeywords'
+  | 'technicalClaims';
+
+export interface KeywordViolation {
+  rule: KeywordRule;
+  message: string;
+  terms: string[];
+  // Whether `fixKeywordRules` can repair it without asking the model.
+  fixable: boolean;
+}
+
+const words = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+
+// Context words worth enforcing. Cyrillic context is translated by the model,
+// so it cannot be matched literally against English metadata.
+export const contextTerms = (context = '') =>
+  [...new Set(words(context))].filter(
+    (w) => w.length > 2 && !/\p{Script=Cyrillic}/u.test(w),
+  );
+
+const unique = (list: string[]) => [...new Set(list)];
+
+// Minimal short side of the frame each resolution term promises.
+const RESOLUTION_TERMS: Record<string, number> = {
+  '8k': 4320,
+  '4320p': 4320,
+  '4k': 2160,
+  uhd: 2160,
+  '2160p': 2160,
+  '2k': 1440,
+  '1440p': 1440,
+  fullhd: 1080,
+  '1080p': 1080,
+  hd: 720,
+  '720p': 720,
+};
+const ALPHA_TERMS = ['alpha', 'transparent', 'transparency'];
+
+// Title and keyword words that promise more than the probed file delivers.
+const falseClaims = (seo: SeoData, probe?: VideoProbe) => {
+  if (!probe?.height) return [];
+  const side = Math.min(probe.width, probe.height);
+  const all = [...words(seo.title), ...words(seo.keywords)];
+  return unique(
+    all.filter(
+      (w) =>
+        RESOLUTION_TERMS[w] > side ||
+        (probe.hasAlpha === false && ALPHA_TERMS.includes(w)),
+    ),
+  );
+};
+
+export const checkKeywordRules = (
+  seo: SeoData,
+  context?: string,
+  probe?: VideoProbe,
+): KeywordViolation[] => {
+  const keywords = parseKeywords(seo.keywords);
+  const lower = keywords.map((k) => k.toLowerCase());
+  const titleWords = new Set(words(seo.title));
+  const required = contextTerms(context);
+  const violations: KeywordViolation[] = [];
+
+  if (keywords.length !== KEYWORD_COUNT) {
+    violations.push({
+      rule: 'count',
+      message: `Ключевых слов ${keywords.length}, нужно ровно ${KEYWORD_COUNT}.`,
+      terms: [],
+      fixable: keywords.length > KEYWORD_COUNT,
+    });
+  }
+
+  const duplicates = unique(lower.filter((k, i) => lower.indexOf(k) !== i));
+  if (duplicates.length) {
+    violations.push({
+      rule: 'duplicates',
+      message: 'Повторяющиеся ключевые слова.',
+      terms: duplicates,
+      fixable: true,
+    });
+  }
+
+  const multiWord = keywords.filter((k) => /\s/.test(k));
+  if (multiWord.length) {
+    violations.push({
+      rule: 'multiWord',
+      message: 'Ключевые слова из нескольких слов.',
+      terms: multiWord,
+      fixable: true,
+    });
+  }
+
+  const overlap = unique(
+    lower.filter((k) => titleWords.has(k) && !required.includes(k)),
+  );
+  if (overlap.length) {
+    violations.push({
+      rule: 'titleOverlap',
+      message: 'Ключевые слова повторяют слова из заголовка.',
+      terms: overlap,
+      fixable: true,
+    });
+  }
+
+  const missingInTitle = required.filter((t) => !titleWords.has(t));
+  if (missingInTitle.length) {
+    violations.push({
+      rule: 'contextInTitle',
+      message: 'Доп. контекст отсутствует в заголовке.',
+      terms: missingInTitle,
+      fixable: true,
+    });
+  }
+
+  const first = new Set(lower.slice(0, CONTEXT_KEYWORD_WINDOW));
+  const missingInKeywords = required.filter((t) => !first.has(t));
+  if (missingInKeywords.length) {
+    violations.push({
+      rule: 'contextInKeywords',
+      message: `Доп. контекст отсутствует в первых ${CONTEXT_KEYWORD_WINDOW} ключевых словах.`,
+      terms: missingInKeywords,
+      fixable: true,
+    });
+  }
+
+  const claims = falseClaims(seo, probe);
+  if (claims.length) {
+    violations.push({
+      rule: 'technicalClaims',
+      message: 'Характеристики, которых нет у файла.',
+      terms: claims,
+      fixable: true,
+    });
+  }
+
+  return violations;
+};
+
+// Applies the automatic fixes for the given rules (all fixable rules by
+// default) in an order where later fixes do not undo earlier ones.
+export const fixKeywordRules = (
+  seo: SeoData,
+  context?: string,
+  rules?: KeywordRule[],
+  probe?: VideoProbe,
+): SeoData => {
+  const applies = (rule: KeywordRule) => !rules || rules.includes(rule);
+  const required = contextTerms(context);
+  let title = seo.title;
+  let keywords = parseKeywords(seo.keywords);
+
+  if (applies('technicalClaims')) {
+    const claims = falseClaims(seo, probe);
+    keywords = keywords.filter((k) => !claims.includes(k.toLowerCase()));
+    claims.forEach((claim) => {
+      const term = new RegExp(
+        `(^|[^\\p{L}\\p{N}])${claim}(?![\\p{L}\\p{N}])`,
+        'giu',
+      );
+      title = title.replace(term, '$1');
+    });
+    title = title.replace(/\s{2,}/g, ' ').replace(/\s+([.,])/g, '$1').trim();
+  }
+  if (applies('contextInTitle')) {
+    const titleWords = new Set(words(title));
+    const missing = required.filter((t) => !titleWords.has(t));
+    // Same escape hatch the prompt offers: "words + concept" at the end.
+    if (missing.length) {
+      title = `${title.replace(/[.\s]+$/, '')}. ${missing.join(' ')} concept`;
+    }
+  }
+  if (applies('multiWord')) {
+    keywords = keywords.flatMap((k) => k.split(/\s+/));
+  }
+  if (applies('duplicates')) {
+    keywords = keywords.filter(
+      (k, i) =>
+        keywords.findIndex((o) => o.toLowerCase() === k.toLowerCase()) === i,
+    );
+  }
+  if (applies('titleOverlap')) {
+    const titleWords = new Set(words(title));
+    keywords = keywords.filter(
+      (k) =>
+        !titleWords.has(k.toLowerCase()) || required.includes(k.toLowerCase()),
+    );
+  }
+  if (applies('contextInKeywords')) {
+    const rest = keywords.filter((k) => !required.includes(k.toLowerCase()));
+    keywords = [...required, ...rest];
+  }
+  if (applies('count')) {
+    keywords = keywords.slice(0, KEYWORD_COUNT);
+  }
+
+  return {...seo, title, keywords: keywords.join(', ')};
+};
+
+// Instruction for a targeted re-ask when the rules cannot be fixed locally,
+// e.g. when the model returned too few keywords.
+export const buildRuleCorrectionPrompt = (violations: KeywordViolation[]) =>
+  [
+    'Исправь метаданные так, чтобы они соответствовали требованиям:',
+    ...violations.map(
+      (v) => `- ${v.message}${v.terms.length ? ` (${v.terms.join(', ')})` : ''}`,
+    ),
+    `Ключевых слов должно быть ровно ${KEYWORD_COUNT}, по одному слову, без повторов и без слов из заголовка.`,
+  ].join('\n');
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {sleep} from './jobQueue';
+import {
+  GenerateRequest,
+  ModelProvider,
+  ModelResponse,
+  TokenUsage,
+  providerLabels,
+} from './provider';
+import {CUE_LINE_FORMAT} from './streaming';
+
+// Deterministic offline provider: the same file name and prompt always give
+// the same answer, so the UI can be developed and demoed without a network.
+const LATENCY = 400;
+// Streamed answers arrive a few words at a time.
+const STREAM_WORDS = 3;
+const STREAM_STEP = 80;
+
+const SUBJECTS = ['Golden retriever', 'Surfer', 'City skyline', 'Abstract neon tunnel'];
+const MOODS = ['happy', 'calm', 'energetic', 'mysterious'];
+const BACKGROUNDS = ['on a sunny beach', 'at night', 'in a misty forest', 'on a blue background'];
+const KEYWORDS = [
+  'summer', 'travel', 'lifestyle', 'nature', 'outdoor', 'vacation', 'motion',
+  'background', 'loop', 'colorful', 'light', 'bright', 'modern', 'concept',
+  'freedom', 'leisure', 'scenic', 'beautiful', 'cinematic', 'footage',
+  'relaxation', 'sunlight', 'holiday', 'adventure', 'joy', 'water', 'sky',
+  'landscape', 'urban', 'dynamic', 'futuristic', 'abstract', 'texture',
+  'pattern', 'glow', 'energy', 'technology', 'digital', 'design', 'art',
+  'creative', 'vibrant', 'smooth', 'seamless', 'animation', 'visual',
+  'atmosphere', 'evening', 'daylight',
+];
+
+const hash = (s: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(list: T[], seed: number) => list[seed % list.length];
+
+const delay = (signal?: AbortSignal) => sleep(LATENCY, signal);
+
+// Roughly what Gemini would bill for a short clip, so the usage panel has
+// something to show offline.
+const mockUsage = (prompt: string, response: ModelResponse): TokenUsage => {
+  const videoTokens = 2900;
+  return {
+    inputTokens: videoTokens + Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil(
+      (response.text.length + JSON.stringify(response.functionCalls).length) /
+        4,
+    ),
+    videoTokens,
+  };
+};
+
+const respond = ({
+  prompt,
+  file,
+  functionDeclarations,
+  clip,
+  model,
+}: GenerateRequest): ModelResponse => {
+  const seed = hash(
+    file.name +
+      prompt +
+      (clip ? `${clip.start}-${clip.end}` : '') +
+      (model ? `|${model}` : ''),
+  );
+  const subject = pick(SUBJECTS, seed);
+  const mood = pick(MOODS, seed >>> 3);
+  const background = pick(BACKGROUNDS, seed >>> 6);
+
+  if (
+    functionDeclarations?.some(
+      (fn) => fn.name === 'set_timecodes_with_numeric_values',
+    )
+  ) {
+    return {
+      text: '',
+      functionCalls: [
+        {
+          name: 'set_timecodes_with_numeric_values',
+          args: {
+            timecodes: Array.from({length: 8}, (_, i) => ({
+              time: `00:${(i * 3).toString().padStart(2, '0')}`,
+              value: 1 + ((seed >>> i) % 10),
+            })),
+          },
+        },
+      ],
+      model: 'mock',
+    };
+  }
+
+  const cues = Array.from({length: 3 + (seed % 4)}, (_, i) => ({
+    time: `00:${(i * 4).toString().padStart(2, '0')}`,
+    text: `Сцена ${i + 1}: ${subject} (${mood}) ${background}`,
+  }));
+
+  if (functionDeclarations?.some((fn) => fn.name === 'set_timecodes')) {
+    return {
+      text: '',
+      functionCalls: [{name: 'set_timecodes', args: {timecodes: cues}}],
+      model: 'mock',
+    };
+  }
+
+  // Streamed subtitle runs ask for cue lines instead of set_timecodes.
+  if (prompt.includes(CUE_LINE_FORMAT)) {
+    return {
+      text: cues.map(({time, text}) => `${time} - ${text}`).join('\n'),
+      functionCalls: [],
+      model: 'mock',
+    };
+  }
+
+  const offset = seed % KEYWORDS.length;
+  const metadata = {
+    title: `${subject} in a ${mood} mood ${background}`,
+    russianTitle: `${subject} (${mood}) — тестовый заголовок`,
+    keywords: [...KEYWORDS.slice(offset), ...KEYWORDS.slice(0, offset)],
+  };
+
+  if (
+    functionDeclarations?.some(
+      (fn) => fn.name === 'set_stock_classification',
+    )
+  ) {
+    return {
+      text: '',
+      functionCalls: [
+        {
+          name: 'set_stock_classification',
+          args: {
+            category: 1 + (seed % 21),
+            editorial: false,
+            aiGenerated: seed % 2 === 0,
+            containsPeople: seed % 5 === 0,
+            looped: seed % 4 === 0,
+          },
+        },
+      ],
+      model: 'mock',
+    };
+  }
+
+  if (functionDeclarations?.some((fn) => fn.name === 'set_release_risks')) {
+    return {
+      text: '',
+      functionCalls: [
+        {
+          name: 'set_release_risks',
+          args: {
+            logos: seed % 3 === 0 ? ['Nike'] : [],
+            recognizablePeople: seed % 5 === 0,
+            landmarks: [],
+            notes: 'Mock review.',
+          },
+        },
+      ],
+      model: 'mock',
+    };
+  }
+
+  if (functionDeclarations?.some((fn) => fn.name === 'set_seo_metadata')) {
+    return {
+      text: '',
+      functionCalls: [{name: 'set_seo_metadata', args: metadata}],
+      model: 'mock',
+    };
+  }
+
+  return {
+    text: [
+      `Title: ${metadata.title}`,
+      `Russian Title: ${metadata.russianTitle}`,
+      `Keywords: ${metadata.keywords.join(', ')}`,
+    ].join('\n'),
+    functionCalls: [],
+    model: 'mock',
+  };
+};
+
+export function createMockProvider(): ModelProvider {
+  return {
+    id: 'mock',
+    label: providerLabels.mock,
+    model: 'mock',
+    persistentFiles: true,
+
+    async upload(file, {onProgress, signal} = {}) {
+      for (let i = 1; i <= 4; i++) {
+        await sleep(LATENCY / 4, signal);
+        onProgress?.(i / 4);
+      }
+      return {
+        provider: 'mock',
+        name: `mock/${hash(file.name + file.size)}`,
+        uri: `mock://${encodeURIComponent(file.name)}`,
+        mimeType: file.type,
+        state: 'PROCESSING',
+        displayName: file.name,
+        createTime: new Date().toISOString(),
+      };
+    },
+
+    async poll(file, signal) {
+      await delay(signal);
+      return {...file, state: 'ACTIVE'};
+    },
+
+    async generate(request) {
+      await delay(request.signal);
+      const response = respond(request);
+      if (request.onText) {
+        const words = response.text.match(/\S+\s*/g) || [];
+        for (let i = 0; i < words.length; i += STREAM_WORDS) {
+          await sleep(STREAM_STEP, request.signal);
+          request.onText(words.slice(0, i + STREAM_WORDS).join(''));
+        }
+      }
+      return {
+        ...response,
+        model: request.model || response.model,
+        usage: mockUsage(request.prompt, response),
+      };
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import modes, {Mode, ModeOutput} from './modes';
+
+export interface ModeEntry extends Mode {
+  // Built-in modes use their name as id so stored results keep resolving.
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'customModes';
+const EXPORT_VERSION = 1;
+const OUTPUTS: ModeOutput[] = [
+  'text',
+  'seo',
+  'timecodes',
+  'chart',
+  'classification',
+  'function',
+];
+
+export const outputLabels: Record<ModeOutput, string> = {
+  text: 'Свободный текст',
+  seo: 'SEO-поля',
+  timecodes: 'Список таймкодов',
+  chart: 'График (числа по времени)',
+  classification: 'Категория и флаги',
+  function: 'Своя функция',
+};
+
+export const builtInModes: ModeEntry[] = Object.entries(modes).map(
+  ([name, mode]) => ({...mode, id: name, name, builtIn: true}),
+);
+
+export class ModeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModeImportError';
+  }
+}
+
+// Returns a human-readable problem with the mode, or null if it is usable.
+export const validateMode = (mode: Partial<ModeEntry>): string | null => {
+  if (!mode.name?.trim()) return 'Укажите название режима.';
+  if (!mode.prompt?.trim()) return 'Укажите промпт.';
+  if (!OUTPUTS.includes(mode.output)) return 'Неизвестный тип вывода.';
+  if (
+    typeof mode.temperature !== 'number' ||
+    mode.temperature < 0 ||
+    mode.temperature > 2
+  ) {
+    return 'Температура должна быть от 0 до 2.';
+  }
+  if (mode.output === 'function') {
+    const fn = mode.functionDeclaration;
+    if (!fn?.name || !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(fn.name)) {
+      return 'У функции должно быть имя из латинских букв, цифр и "_".';
+    }
+    if (!fn.parameters || typeof fn.parameters !== 'object') {
+      return 'У функции должна быть схема parameters.';
+    }
+  }
+  return null;
+};
+
+export const loadCustomModes = (): ModeEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((m) => m?.id && !validateMode(m))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomModes = (list: ModeEntry[]) =>
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(list.map(({builtIn, ...mode}) => mode)),
+  );
+
+export const exportModes = (list: ModeEntry[]) =>
+  JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      modes: list.map(({id, builtIn, ...mode}) => mode),
+    },
+    null,
+    2,
+  );
+
+// Imported modes always get fresh ids so they never overwrite local ones.
+export const importModes = (json: string): ModeEntry[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ModeImportError('Файл не является корректным JSON.');
+  }
+  const list = Array.isArray(data) ? data : data?.modes;
+  if (!Array.isArray(list)) {
+    throw new ModeImportError('В файле нет списка режимов.');
+  }
+  return list.map((mode, i) => {
+    const entry: ModeEntry = {
+      emoji: '🧩',
+      temperature: 0.5,
+      ...mode,
+      id: self.crypto.randomUUID(),
+      builtIn: false,
+    };
+    const problem = validateMode(entry);
+    if (problem) {
+      throw new ModeImportError(`Режим №${i + 1}: ${problem}`);
+    }
+    return entry;
+  });
+};
+
+export const createMode = (base?: ModeEntry): ModeEntry => ({
+  emoji: base?.emoji || '🧩',
+  prompt: base?.prompt || '',
+  output: base?.output || 'text',
+  temperature: base?.temperature ?? 0.5,
+  functionDeclaration: base?.functionDeclaration,
+  id: self.crypto.randomUUID(),
+  name: base ? `${base.name} (копия)` : 'Новый режим',
+});
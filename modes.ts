@@ -17,25 +17,82 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export default {
-  'SEO Описание': {
+import {FunctionDeclaration} from '@google/genai';
+
+// How a mode's response is requested and displayed.
+export type ModeOutput =
+  | 'text'
+  | 'seo'
+  | 'timecodes'
+  | 'chart'
+  | 'classification'
+  | 'function';
+
+export interface Mode {
+  emoji: string;
+  prompt: string;
+  output: ModeOutput;
+  temperature: number;
+  // Only for `output: 'function'`.
+  functionDeclaration?: FunctionDeclaration;
+}
+
+export const MODE_SEO = 'SEO Описание';
+export const MODE_SUBTITLES = 'Аудио/Видео субтитры';
+export const MODE_CLASSIFICATION = 'Категория и флаги';
+
+const modes: Record<string, Mode> = {
+  [MODE_SEO]: {
     emoji: '✍️',
     prompt: `Напиши SEO-оптимизированный заголовок для стокового видео на английском языке, используя формулу: [кто на картинке] [в каком настроении] [что делает] [на каком фоне] (для живых существ) и в соответствии с формой [что и в каком стиле] [в каких цветах] [что это или для чего используется] (для остальных). Например: Animation of a psychedelic sketch "astronaut in the city". Insanely colorful background. Visual 3D animation of a neural network with the possibility of looping. Concept: Chatbot, artificial intelligence, deep learning, machine learning and large language model, visualization of waterfalls in a quiet forest, mystical, fantastic, fairy-tale magical futuristic space animation with deep space, galaxy and futuristic cityscape on the planet. Bright space animation with illustration transformations, music visualization concept.
     
     Также предоставь перевод этого заголовка на русский язык.
 
-    Затем напиши 49 популярных ключевых слов на английском языке (по одному слову), разделенных запятыми. Не используй слова, которые уже есть в заголовке; ключевые слова должны расширять поиск. Чем раньше введено слово, тем оно должно быть релевантнее для поиска, т.е. тем выше вероятность, что это слово будет использовано для поиска этого изображения. Слова должны быть разделены запятыми. Если я отправляю текст с описанием, он ДОЛЖЕН быть в заголовке и в первых 10 ключевых словах. Для каждого видео. Если у тебя 10 видео, ты должен добавить текст к каждому из них. Если ты не знаешь, как добавить эти слова к изображению, добавь "слова + концепт" в конце заголовка. Если ты не добавишь эти слова в первые 10 ключевых слов, ты получишь штраф за каждое нарушение. 
+    Затем напиши {{keywordCount}} популярных ключевых слов на английском языке (по одному слову), разделенных запятыми. Не используй слова, которые уже есть в заголовке; ключевые слова должны расширять поиск. Чем раньше введено слово, тем оно должно быть релевантнее для поиска, т.е. тем выше вероятность, что это слово будет использовано для поиска этого изображения. Слова должны быть разделены запятыми. Если я отправляю текст с описанием, он ДОЛЖЕН быть в заголовке и в первых 10 ключевых словах. Для каждого видео. Если у тебя 10 видео, ты должен добавить текст к каждому из них. Если ты не знаешь, как добавить эти слова к изображению, добавь "слова + концепт" в конце заголовка. Если ты не добавишь эти слова в первые 10 ключевых слов, ты получишь штраф за каждое нарушение. 
     
-    Ответ должен быть строго в следующем формате:
-    Title: [Заголовок на английском]
-    Russian Title: [Заголовок на русском]
-    Keywords: [Ключевые слова на английском]`,
-    isText: true,
+    Передай результат в set_seo_metadata: title — заголовок на английском, russianTitle — заголовок на русском, keywords — список ключевых слов на английском.
+
+    Видео входит в коллекцию «{{collection}}», заголовок и ключевые слова должны соответствовать её теме.
+    ВАЖНО: При генерации обязательно учти следующий контекст или ключевые слова: "{{context}}"`,
+    output: 'seo',
+    temperature: 0.5,
   },
 
-  'Аудио/Видео субтитры': {
+  [MODE_SUBTITLES]: {
     emoji: '👀',
-    prompt: `Для каждой сцены в этом видео сгенерируй субтитры на русском языке, описывающие сцену, а также любой произнесенный текст в кавычках. Помести каждый субтитр в объект, отправляемый в set_timecodes, с таймкодом субтитра в видео.`,
-    isList: true,
+    prompt: `Для каждой сцены в этом видео сгенерируй субтитры на языке «{{language|русский}}», описывающие сцену, а также любой произнесенный текст в кавычках. Помести каждый субтитр в объект, отправляемый в set_timecodes, с таймкодом субтитра в видео.`,
+    output: 'timecodes',
+    temperature: 0.5,
+  },
+
+  [MODE_CLASSIFICATION]: {
+    emoji: '🏷️',
+    prompt: `Определи для этого стокового видео категорию Adobe Stock и флаги для загрузки на стоки: только редакционное использование, создано ли видео с помощью ИИ, есть ли в кадре люди, зациклено ли видео. Передай результат в set_stock_classification.
+    Первый и последний кадры файла совпадают ({{looped}}), учти это.`,
+    output: 'classification',
+    temperature: 0.2,
   },
-};
\ No newline at end of file
+
+  'Интенсивность движения': {
+    emoji: '🏃',
+    prompt: `Оцени интенсивность движения в кадре по шкале от 1 (статичный кадр) до 10 (очень быстрое движение камеры или объектов) для каждой сцены или каждые несколько секунд видео. Передай оценки в set_timecodes_with_numeric_values с таймкодом каждой оценки.`,
+    output: 'chart',
+    temperature: 0.3,
+  },
+
+  'Эмоциональный тон': {
+    emoji: '🎭',
+    prompt: `Оцени эмоциональный тон видео по шкале от -5 (мрачный, тревожный) до 5 (радостный, вдохновляющий) для каждой сцены или каждые несколько секунд видео. Передай оценки в set_timecodes_with_numeric_values с таймкодом каждой оценки.`,
+    output: 'chart',
+    temperature: 0.3,
+  },
+
+  'Пригодность для стока': {
+    emoji: '📈',
+    prompt: `Оцени, насколько каждый фрагмент видео пригоден для продажи на стоковых площадках, по шкале от 1 до 10: резкость, экспозиция, стабильность камеры, отсутствие логотипов и узнаваемых людей, коммерческая привлекательность. Дай оценку для каждой сцены или каждые несколько секунд видео и передай оценки в set_timecodes_with_numeric_values с таймкодом каждой оценки.`,
+    output: 'chart',
+    temperature: 0.3,
+  },
+};
+
+export default modes;
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// ISO BMFF (MP4/MOV) box reading shared by the metadata writer and the probe.
+
+export interface Box {
+  type: string;
+  start: number;
+  size: number;
+  headerSize: number;
+}
+
+export class Mp4FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Mp4FormatError';
+  }
+}
+
+// Box types are Latin-1: '©' is the single byte 0xA9.
+const decoder = new TextDecoder('latin1');
+
+export const readType = (bytes: Uint8Array, at: number) =>
+  decoder.decode(bytes.subarray(at, at + 4));
+
+export const parseHeader = (
+  bytes: Uint8Array,
+  at: number,
+  limit: number,
+): Box => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  let size = view.getUint32(at);
+  let headerSize = 8;
+  if (size === 1) {
+    size = Number(view.getBigUint64(at + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - at;
+  }
+  if (size < headerSize || at + size > limit) {
+    throw new Mp4FormatError('Повреждённая структура файла.');
+  }
+  return {type: readType(bytes, at + 4), start: at, size, headerSize};
+};
+
+export const childBoxes = (bytes: Uint8Array, box: Box) => {
+  const children: Box[] = [];
+  const end = box.start + box.size;
+  for (let at = box.start + box.headerSize; at + 8 <= end; ) {
+    const child = parseHeader(bytes, at, end);
+    children.push(child);
+    at += child.size;
+  }
+  return children;
+};
+
+// Follows a path of box types, e.g. ['mdia', 'minf', 'stbl'].
+export const findBox = (bytes: Uint8Array, box: Box, path: string[]) =>
+  path.reduce<Box | undefined>(
+    (parent, type) =>
+      parent && childBoxes(bytes, parent).find((b) => b.type === type),
+    box,
+  );
+
+// Top-level boxes are read header by header so the media data stays on disk.
+export const readTopLevelBoxes = async (file: Blob) => {
+  const boxes: Box[] = [];
+  for (let at = 0; at + 8 <= file.size; ) {
+    const head = new Uint8Array(await file.slice(at, at + 16).arrayBuffer());
+    // Offsets are relative to the head slice, limits to the whole file.
+    const box = parseHeader(head, 0, file.size - at);
+    box.start = at;
+    boxes.push(box);
+    at += box.size;
+  }
+  return boxes;
+};
+
+// Reads the whole moov box; it only holds indexes, never media data.
+export const readMoov = async (file: Blob, boxes: Box[]) => {
+  const moovBox = boxes.find((b) => b.type === 'moov');
+  if (!moovBox) return null;
+  const bytes = new Uint8Array(
+    await file.slice(moovBox.start, moovBox.start + moovBox.size).arrayBuffer(),
+  );
+  return {box: moovBox, bytes, root: {...moovBox, start: 0}};
+};
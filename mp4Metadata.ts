@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Writes title, description and keywords into an MP4/MOV container without
+// re-encoding. Only the `moov` box is rebuilt; media data is copied as Blob
+// slices, so even large clips are never loaded into memory.
+//
+// Layout follows what ExifTool and Adobe tools produce:
+// - XMP packet: top-level `uuid` box for MP4, `moov/udta/XMP_` for MOV;
+// - iTunes-style `moov/udta/meta/ilst` (©nam, desc) for players and ffmpeg.
+
+import {
+  Box,
+  Mp4FormatError,
+  childBoxes,
+  parseHeader,
+  readMoov,
+  readTopLevelBoxes,
+  readType,
+} from './mp4Boxes';
+
+export interface VideoMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+// Container problems are reported as Mp4FormatError from the box reader.
+export class MetadataEmbedError extends Mp4FormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataEmbedError';
+  }
+}
+
+const XMP_UUID = new Uint8Array([
+  0xbe, 0x7a, 0xcf, 0xcb, 0x97, 0xa9, 0x42, 0xe8, 0x9c, 0x71, 0x99, 0x94,
+  0x91, 0xe3, 0xaf, 0xac,
+]);
+
+// Containers walked to reach the chunk offset tables.
+const CONTAINERS = new Set(['trak', 'mdia', 'minf', 'stbl']);
+// udta children replaced by our own metadata.
+const REPLACED_UDTA = new Set(['XMP_', 'meta', '©nam', '©des']);
+
+const encoder = new TextEncoder();
+
+export const canEmbedMetadata = (file: File | null) =>
+  !!file &&
+  (/\.(mp4|m4v|mov)$/i.test(file.name) ||
+    ['video/mp4', 'video/quicktime'].includes(file.type));
+
+const makeBox = (type: string, ...payload: Uint8Array[]) => {
+  const size = 8 + payload.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  // '©' must be written as the single byte 0xA9, not as UTF-8.
+  out.set(Array.from(type, (ch) => ch.charCodeAt(0)), 4);
+  let at = 8;
+  payload.forEach((p) => {
+    out.set(p, at);
+    at += p.length;
+  });
+  return out;
+};
+
+const uint32 = (...values: number[]) => {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(i * 4, v));
+  return out;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const langAlt = (value: string) =>
+  `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+
+export const buildXmp = ({title, description, keywords}: VideoMetadata) =>
+  [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:title>${langAlt(title)}</dc:title>`,
+    `<dc:description>${langAlt(description)}</dc:description>`,
+    '<dc:subject><rdf:Bag>',
+    ...keywords.map((k) => `<rdf:li>${escapeXml(k)}</rdf:li>`),
+    '</rdf:Bag></dc:subject>',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+
+const ilstItem = (type: string, value: string) =>
+  makeBox(
+    type,
+    // Type indicator 1 = UTF-8 text, followed by an empty locale.
+    makeBox('data', uint32(1, 0), encoder.encode(value)),
+  );
+
+const buildItunesMeta = ({title, description}: VideoMetadata) =>
+  makeBox(
+    'meta',
+    uint32(0),
+    makeBox(
+      'hdlr',
+      uint32(0, 0),
+      encoder.encode('mdirappl'),
+      uint32(0, 0),
+      new Uint8Array(1),
+    ),
+    makeBox('ilst', ilstItem('©nam', title), ilstItem('desc', description)),
+  );
+
+const isXmpUuid = (head: Uint8Array) =>
+  XMP_UUID.every((b, i) => head[8 + i] === b);
+
+// Shifts every stco/co64 entry by the distance its target box moved.
+const patchChunkOffsets = (
+  moov: Uint8Array,
+  shift: (offset: number) => number,
+) => {
+  const view = new DataView(moov.buffer, moov.byteOffset);
+  const walk = (box: Box) => {
+    childBoxes(moov, box).forEach((child) => {
+      if (CONTAINERS.has(child.type)) {
+        walk(child);
+      } else if (child.type === 'stco' || child.type === 'co64') {
+        const count = view.getUint32(child.start + child.headerSize + 4);
+        const first = child.start + child.headerSize + 8;
+        for (let i = 0; i < count; i++) {
+          if (child.type === 'stco') {
+            const at = first + i * 4;
+            const next = shift(view.getUint32(at));
+            if (next > 0xffffffff) {
+              throw new MetadataEmbedError(
+                'Файл слишком большой для записи метаданных перед данными.',
+              );
+            }
+            view.setUint32(at, next);
+          } else {
+            const at = first + i * 8;
+            view.setBigUint64(at, BigInt(shift(Number(view.getBigUint64(at)))));
+          }
+        }
+      }
+    });
+  };
+  walk(parseHeader(moov, 0, moov.length));
+};
+
+export async function embedMetadata(
+  file: Blob,
+  metadata: VideoMetadata,
+): Promise<Blob> {
+  const boxes = await readTopLevelBoxes(file);
+  const moovData = await readMoov(file, boxes);
+  if (!moovData) {
+    throw new MetadataEmbedError('Файл не является MP4/MOV.');
+  }
+  const {box: moovBox, bytes: moov, root} = moovData;
+  // Legacy QuickTime files have no ftyp at all.
+  const ftypBox = boxes.find((b) => b.type === 'ftyp');
+  const ftyp = ftypBox
+    ? new Uint8Array(
+        await file.slice(ftypBox.start, ftypBox.start + 12).arrayBuffer(),
+      )
+    : null;
+  const isQuickTime = !ftyp || readType(ftyp, 8) === 'qt  ';
+
+  const children = childBoxes(moov, root);
+  const oldUdta = children.find((b) => b.type === 'udta');
+  const keptUdta = oldUdta
+    ? childBoxes(moov, oldUdta)
+        .filter((b) => !REPLACED_UDTA.has(b.type))
+        .map((b) => moov.subarray(b.start, b.start + b.size))
+    : [];
+  const xmp = encoder.encode(buildXmp(metadata));
+  const udta = makeBox(
+    'udta',
+    ...keptUdta,
+    buildItunesMeta(metadata),
+    ...(isQuickTime ? [makeBox('XMP_', xmp)] : []),
+  );
+  const newMoov = makeBox(
+    'moov',
+    ...children
+      .filter((b) => b.type !== 'udta')
+      .map((b) => moov.subarray(b.start, b.start + b.size)),
+    udta,
+  );
+
+  // Stale top-level XMP is dropped; MP4 gets a fresh one right after moov.
+  const stale = new Set<Box>();
+  for (const box of boxes.filter((b) => b.type === 'uuid')) {
+    const head = new Uint8Array(
+      await file.slice(box.start, box.start + 24).arrayBuffer(),
+    );
+    if (isXmpUuid(head)) stale.add(box);
+  }
+
+  const parts: BlobPart[] = [];
+  const moved = new Map<Box, number>();
+  let offset = 0;
+  boxes
+    .filter((b) => !stale.has(b))
+    .forEach((box) => {
+      if (box === moovBox) {
+        parts.push(newMoov);
+        offset += newMoov.length;
+        if (!isQuickTime) {
+          const uuid = makeBox('uuid', XMP_UUID, xmp);
+          parts.push(uuid);
+          offset += uuid.length;
+        }
+        return;
+      }
+      moved.set(box, offset - box.start);
+      parts.push(file.slice(box.start, box.start + box.size));
+      offset += box.size;
+    });
+
+  patchChunkOffsets(newMoov, (chunk) => {
+    const box = boxes.find(
+      (b) => chunk >= b.start && chunk < b.start + b.size,
+    );
+    return chunk + (moved.get(box) || 0);
+  });
+
+  return new Blob(parts, {type: file.type});
+}
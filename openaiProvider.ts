@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {abortError} from './jobQueue';
+import {
+  ClipRange,
+  ModelProvider,
+  ProviderSettings,
+  UploadOptions,
+  providerLabels,
+} from './provider';
+
+// Local OpenAI-compatible servers (llama.cpp, Ollama) have no file API and
+// cannot decode video, so the video is sampled into still frames that are sent
+// as images alongside the prompt.
+const FRAME_COUNT = 12;
+const FRAME_MAX_SIZE = 512;
+const DEFAULT_MODEL = 'llava';
+
+interface Frame {
+  time: number;
+  dataUrl: string;
+}
+
+// Frames live only for the session; see `persistentFiles`.
+const frameStore = new Map<string, Frame[]>();
+
+// Reads a server-sent stream of completion chunks into the shape of a
+// non-streamed response. Tool call arguments arrive in fragments.
+const readStream = async (
+  response: Response,
+  onText: (text: string) => void,
+) => {
+  const reader = response.body
+    .pipeThrough(new TextDecoderStream())
+    .getReader();
+  const message = {content: '', tool_calls: [] as any[]};
+  const json: any = {choices: [{message}]};
+  let buffer = '';
+  for (;;) {
+    const {value, done} = await reader.read();
+    if (done) break;
+    const lines = (buffer + value).split('\n');
+    buffer = lines.pop();
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1];
+      if (!data || data === '[DONE]') continue;
+      const chunk = JSON.parse(data);
+      json.model = chunk.model || json.model;
+      json.usage = chunk.usage || json.usage;
+      const delta = chunk.choices?.[0]?.delta || {};
+      if (delta.content) {
+        message.content += delta.content;
+        onText(message.content);
+      }
+      (delta.tool_calls || []).forEach((part) => {
+        const index = part.index ?? 0;
+        const call = (message.tool_calls[index] = message.tool_calls[index] || {
+          function: {name: '', arguments: ''},
+        });
+        call.function.name += part.function?.name || '';
+        call.function.arguments += part.function?.arguments || '';
+      });
+    }
+  }
+  return json;
+};
+
+// Frames are sampled once for the whole video; a clip gets those inside its
+// range, or the nearest one when the range falls between samples.
+const clipFrames = (frames: Frame[], {start, end}: ClipRange) => {
+  const inside = frames.filter((f) => f.time >= start && f.time <= end);
+  if (inside.length) return inside;
+  const middle = (start + end) / 2;
+  return [
+    frames.reduce((best, f) =>
+      Math.abs(f.time - middle) < Math.abs(best.time - middle) ? f : best,
+    ),
+  ];
+};
+
+const formatSecs = (t: number) =>
+  `${Math.floor(t / 60)}:${Math.floor(t % 60)
+    .toString()
+    .padStart(2, '0')}`;
+
+async function extractFrames(
+  file: File,
+  {onProgress, signal}: UploadOptions,
+): Promise<Frame[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await new Promise((resolve, reject) => {
+      video.onloadeddata = resolve;
+      video.onerror = () => reject(new Error('Не удалось декодировать видео.'));
+    });
+
+    const scale = Math.min(
+      1,
+      FRAME_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight),
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+
+    const frames: Frame[] = [];
+    for (let i = 0; i < FRAME_COUNT; i++) {
+      if (signal?.aborted) throw abortError();
+      const time = (video.duration * (i + 0.5)) / FRAME_COUNT;
+      await new Promise((resolve) => {
+        video.onseeked = resolve;
+        video.currentTime = time;
+      });
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({time, dataUrl: canvas.toDataURL('image/jpeg', 0.8)});
+      onProgress?.((i + 1) / FRAME_COUNT);
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Gemini schemas use upper-case type names ('OBJECT'); JSON Schema wants them
+// lower-case.
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string'
+        ? value.toLowerCase()
+        : toJsonSchema(value),
+    ]),
+  );
+};
+
+export function createOpenAIProvider(settings: ProviderSettings): ModelProvider {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_MODEL;
+
+  return {
+    id: 'openai',
+    label: providerLabels.openai,
+    model,
+    persistentFiles: false,
+
+    async upload(file, options = {}) {
+      const frames = await extractFrames(file, options);
+      const name = `local/${self.crypto.randomUUID()}`;
+      frameStore.set(name, frames);
+      return {
+        provider: 'openai',
+        name,
+        uri: name,
+        mimeType: file.type,
+        state: 'ACTIVE',
+        displayName: file.name,
+        createTime: new Date().toISOString(),
+      };
+    },
+
+    async poll(file) {
+      return frameStore.has(file.name) ? file : {...file, state: 'FAILED'};
+    },
+
+    async generate({
+      prompt,
+      file,
+      functionDeclarations,
+      systemInstruction,
+      temperature,
+      signal,
+      clip,
+      model: requestModel = model,
+      onText,
+    }) {
+      const stored = frameStore.get(file.name);
+      if (!stored) {
+        throw new Error('Кадры видео недоступны. Загрузите видео снова.');
+      }
+      const frames = clip ? clipFrames(stored, clip) : stored;
+
+      const messages: any[] = [];
+      if (functionDeclarations && systemInstruction) {
+        messages.push({role: 'system', content: systemInstruction});
+      }
+      messages.push({
+        role: 'user',
+        content: [
+          {type: 'text', text: prompt},
+          ...frames.flatMap(({time, dataUrl}) => [
+            {type: 'text', text: `Кадр ${formatSecs(time)}`},
+            {type: 'image_url', image_url: {url: dataUrl}},
+          ]),
+        ],
+      });
+
+      const body: any = {
+        model: requestModel,
+        messages,
+        temperature: temperature ?? 0.5,
+      };
+      if (functionDeclarations) {
+        body.tools = functionDeclarations.map((fn) => ({
+          type: 'function',
+          function: {
+            name: fn.name,
+            description: fn.description,
+            parameters: toJsonSchema(fn.parameters),
+          },
+        }));
+        body.tool_choice = 'required';
+      }
+      if (onText) {
+        body.stream = true;
+        body.stream_options = {include_usage: true};
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey && {Authorization: `Bearer ${settings.apiKey}`}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Ошибка сервера модели: ${response.status} ${await response.text()}`,
+        );
+      }
+      const json = onText
+        ? await readStream(response, onText)
+        : await response.json();
+      const message = json.choices?.[0]?.message || {};
+
+      return {
+        text: message.content || '',
+        functionCalls: (message.tool_calls || []).map((call) => ({
+          name: call.function.name,
+          args:
+            typeof call.function.arguments === 'string'
+              ? JSON.parse(call.function.arguments)
+              : call.function.arguments,
+        })),
+        model: json.model || requestModel,
+        usage: json.usage && {
+          inputTokens: json.usage.prompt_tokens || 0,
+          outputTokens: json.usage.completion_tokens || 0,
+          videoTokens: 0,
+        },
+        raw: json,
+      };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// `{{name}}` placeholders in mode prompts, filled per video at generation
+// time. `{{name|fallback}}` supplies a default. A line whose placeholder has
+// no value and no fallback is dropped entirely, so optional lines such as
+// "Коллекция: {{collection}}" disappear instead of reaching the model
+// half-empty. Unknown names are treated the same way and reported.
+
+import {KEYWORD_COUNT} from './keywordRules';
+import {formatCuts} from './shotDetection';
+import {VideoFileEntry} from './types';
+import {stripExtension} from './utils';
+import {probeVariables} from './videoProbe';
+
+// Values typed by the user once per batch rather than read from the video.
+export interface PromptInputs {
+  context: string;
+  language: string;
+  collection: string;
+}
+
+export const templateVariables: {name: string; label: string}[] = [
+  {name: 'filename', label: 'Имя файла без расширения'},
+  {name: 'duration', label: 'Длительность'},
+  {name: 'resolution', label: 'Разрешение (HD, Full HD, 4K...)'},
+  {name: 'width', label: 'Ширина кадра'},
+  {name: 'height', label: 'Высота кадра'},
+  {name: 'fps', label: 'Частота кадров'},
+  {name: 'codec', label: 'Кодек'},
+  {name: 'alpha', label: '"alpha channel", если есть альфа-канал'},
+  {name: 'looped', label: '"looped", если видео зациклено'},
+  {name: 'cuts', label: 'Найденные монтажные склейки'},
+  {name: 'context', label: 'Доп. контекст'},
+  {name: 'language', label: 'Целевой язык'},
+  {name: 'collection', label: 'Название коллекции'},
+  {name: 'keywordCount', label: 'Нужное число ключевых слов'},
+];
+
+// Variables backed by `PromptInputs`, shown as inputs when a prompt uses them.
+export const inputVariables: (keyof PromptInputs)[] = [
+  'context',
+  'language',
+  'collection',
+];
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export const usedVariables = (template: string) => [
+  ...new Set([...template.matchAll(PLACEHOLDER)].map((m) => m[1])),
+];
+
+export const buildVariables = (
+  video: VideoFileEntry | null,
+  inputs: PromptInputs,
+): Record<string, string> => ({
+  filename: video ? stripExtension(video.name) : '',
+  ...probeVariables(video?.probe),
+  cuts: formatCuts(video?.shotCuts),
+  context: inputs.context.trim(),
+  language: inputs.language.trim(),
+  collection: inputs.collection.trim(),
+  keywordCount: `${KEYWORD_COUNT}`,
+});
+
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, string>,
+) => {
+  const missing = new Set<string>();
+  const lines = template.split('\n').flatMap((line) => {
+    let dropped = false;
+    const text = line.replace(PLACEHOLDER, (_, name, fallback) => {
+      // Prototype members such as "constructor" are not variables.
+      const value =
+        (Object.hasOwn(variables, name) ? variables[name] : '') ||
+        fallback?.trim();
+      if (value) return value;
+      missing.add(name);
+      dropped = true;
+      return '';
+    });
+    return dropped ? [] : [text];
+  });
+  return {
+    text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    missing: [...missing],
+  };
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {FunctionDeclaration} from '@google/genai';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// A video handle as returned by a provider. Gemini handles are stored as-is,
+// so the shape mirrors the Gemini Files API.
+export interface ProviderFile {
+  provider: ProviderId;
+  name: string;
+  uri: string;
+  mimeType: string;
+  state: 'PROCESSING' | 'ACTIVE' | 'FAILED';
+  displayName?: string;
+  createTime?: string;
+  expirationTime?: string;
+  // Set by the provider when processing failed.
+  error?: {message?: string};
+}
+
+export interface UploadOptions {
+  // Fraction of bytes sent, from 0 to 1.
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface FunctionCall {
+  name: string;
+  args: any;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  file: ProviderFile;
+  functionDeclarations?: FunctionDeclaration[] | null;
+  systemInstruction?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+  // Only this range of the video is analysed, in seconds.
+  clip?: ClipRange;
+  // Overrides the configured model for this request.
+  model?: string;
+  // Streams the response: called with the text received so far.
+  onText?: (text: string) => void;
+}
+
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+// Billed token counts; video tokens are part of the input tokens.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  videoTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  functionCalls: FunctionCall[];
+  model: string;
+  usage?: TokenUsage;
+  // Served from the local response cache; nothing was billed.
+  cached?: boolean;
+  raw?: unknown;
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  // Model used for generation, after defaults are applied.
+  model: string;
+  // False when handles live only in memory and cannot survive a reload.
+  persistentFiles: boolean;
+  upload(file: File, options?: UploadOptions): Promise<ProviderFile>;
+  poll(file: ProviderFile, signal?: AbortSignal): Promise<ProviderFile>;
+  generate(request: GenerateRequest): Promise<ModelResponse>;
+}
+
+export const providerLabels: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-совместимый (локальный)',
+  mock: 'Mock (офлайн)',
+};
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // Empty means the provider's default model.
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+const SETTINGS_KEY = 'providerSettings';
+
+export const defaultProviderSettings: ProviderSettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  let stored: Partial<ProviderSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    // Ignore corrupted settings and fall back to defaults.
+  }
+  const settings = {...defaultProviderSettings, ...stored};
+  // `?provider=mock` lets the UI be developed without any network access.
+  const override = new URLSearchParams(location.search).get('provider');
+  if (override && Object.hasOwn(providerLabels, override)) {
+    settings.provider = override as ProviderId;
+  }
+  return settings;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
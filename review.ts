@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Approval workflow of the batch review grid.
+
+import {checkKeywordRules} from './keywordRules';
+import {findRiskHits} from './riskTerms';
+import {parseKeywords} from './stockExport';
+import {ApprovalState, VideoFileEntry} from './types';
+
+export const approvalLabels: Record<ApprovalState, string> = {
+  draft: 'Черновик',
+  needsFix: 'Нужна правка',
+  approved: 'Одобрено',
+  exported: 'Экспортировано',
+};
+
+export const approvalOf = (video: VideoFileEntry): ApprovalState =>
+  video.approval || 'draft';
+
+export const hasResult = (video: VideoFileEntry) =>
+  !!(video.seoData?.title || video.seoData?.keywords);
+
+export const keywordCount = (video: Pick<VideoFileEntry, 'seoData'>) =>
+  parseKeywords(video.seoData?.keywords || '').length;
+
+// Everything a reviewer should look at before approving; empty when the
+// metadata passes the prompt rules and the risk list.
+export const reviewIssues = (
+  video: VideoFileEntry,
+  riskTerms: string[],
+): string[] => {
+  if (video.uploadError) return [`Загрузка: ${video.uploadError}`];
+  if (!hasResult(video)) return [];
+  return [
+    ...checkKeywordRules(video.seoData, video.seoContext, video.probe).map(
+      (v) => v.message,
+    ),
+    ...findRiskHits(video.seoData, riskTerms).map(
+      (hit) => `Риск: ${hit.matches.join(', ')}`,
+    ),
+  ];
+};
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Trademark and release risk checks for stock metadata. Agencies reject
+// commercial clips whose title or keywords name brands, famous people or
+// landmarks that need a property release; such clips can only be sold as
+// editorial.
+//
+// The list is edited by the user, one entry per line. Plain entries match
+// whole words or phrases case-insensitively; `/.../flags` entries are
+// regular expressions.
+
+import {parseKeywords} from './stockExport';
+import {ReleaseReview, SeoData, VideoFileEntry} from './types';
+
+const STORAGE_KEY = 'riskTerms';
+
+export const DEFAULT_RISK_TERMS = [
+  // Brands and products. Brand names that are also ordinary words (apple,
+  // windows, amazon, coke, marvel) are listed only as unambiguous phrases.
+  'apple logo',
+  'apple watch',
+  'iphone',
+  'ipad',
+  'macbook',
+  'samsung',
+  'google',
+  'android',
+  'microsoft',
+  'facebook',
+  'instagram',
+  'tiktok',
+  'youtube',
+  'amazon prime',
+  'amazon alexa',
+  'netflix',
+  'nike',
+  'adidas',
+  'coca-cola',
+  'pepsi',
+  'mcdonalds',
+  'starbucks',
+  'tesla',
+  'bmw',
+  'mercedes',
+  'ferrari',
+  'lego',
+  'disney',
+  'marvel comics',
+  'marvel studios',
+  'barbie',
+  'playstation',
+  'xbox',
+  'nintendo',
+  'chatgpt',
+  'openai',
+  '/\\b\\w+(?:™|®)/',
+  // Landmarks with protected night lighting or architecture
+  'eiffel tower',
+  'atomium',
+  'sydney opera house',
+  'hollywood sign',
+  'flatiron building',
+  'transamerica pyramid',
+  // Events and organizations
+  'olympic',
+  'olympics',
+  'fifa',
+  'nba',
+  'nfl',
+  'oscars',
+  'academy awards',
+  'grammy',
+  'red cross',
+];
+
+export const loadRiskTerms = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(stored) ? stored.map(String) : DEFAULT_RISK_TERMS;
+  } catch {
+    return DEFAULT_RISK_TERMS;
+  }
+};
+
+export const saveRiskTerms = (terms: string[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(terms));
+
+export const parseRiskTermList = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Invalid user regexes never match instead of breaking the whole check.
+const compileTerm = (term: string): RegExp | null => {
+  const regex = term.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regex) {
+      const flags = [...new Set(`${regex[2]}giu`)].join('');
+      return new RegExp(regex[1], flags);
+    }
+    // Spaces and hyphens are interchangeable: "coca cola" = "coca-cola".
+    const body = escapeRegExp(term).replace(/[\s-]+/g, '[\\s-]+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'giu');
+  } catch {
+    return null;
+  }
+};
+
+export interface RiskHit {
+  term: string;
+  // The actual words found, as written in the metadata.
+  matches: string[];
+}
+
+const findMatches = (text: string, pattern: RegExp) => [
+  ...new Set([...text.matchAll(pattern)].map((m) => m[0])),
+];
+
+export const findRiskHits = (seo: SeoData, terms: string[]): RiskHit[] =>
+  terms.flatMap((term) => {
+    const pattern = compileTerm(term);
+    if (!pattern) return [];
+    const matches = findMatches(`${seo.title}\n${seo.keywords}`, pattern);
+    return matches.length ? [{term, matches}] : [];
+  });
+
+// Splits text into plain and flagged parts for highlighting.
+export const highlightRisks = (text: string, hits: RiskHit[]) => {
+  const flagged = new Set(
+    hits.flatMap((h) => h.matches.map((m) => m.toLowerCase())),
+  );
+  if (flagged.size === 0) return [{text, risky: false}];
+  const alternation = [...flagged]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return text
+    .split(new RegExp(`(${alternation})`, 'giu'))
+    .filter(Boolean)
+    .map((part) => ({text: part, risky: flagged.has(part.toLowerCase())}));
+};
+
+// Removes the matched words from the title and drops matching keywords.
+export const removeRiskTerms = (
+  seo: SeoData,
+  terms: string[],
+): SeoData => {
+  const patterns = terms.map(compileTerm).filter(Boolean);
+  let title = seo.title;
+  patterns.forEach((p) => (title = title.replace(p, '')));
+  const keywords = parseKeywords(seo.keywords).filter((k) =>
+    patterns.every((p) => findMatches(k, p).length === 0),
+  );
+  return {
+    ...seo,
+    title: title.replace(/\s{2,}/g, ' ').replace(/\s+([.,])/g, '$1').trim(),
+    keywords: keywords.join(', '),
+  };
+};
+
+export type UsageLabel = 'commercial' | 'editorial';
+
+export const usageLabels: Record<UsageLabel, string> = {
+  commercial: 'Коммерческое использование',
+  editorial: 'Только редакционное',
+};
+
+export const reviewFindings = (review?: ReleaseReview) =>
+  review
+    ? [
+        ...review.logos.map((l) => `логотип: ${l}`),
+        ...(review.recognizablePeople ? ['узнаваемые люди'] : []),
+        ...review.landmarks.map((l) => `объект: ${l}`),
+      ]
+    : [];
+
+// A clip classified as editorial stays editorial even with clean metadata.
+export const usageLabel = (
+  video: Pick<VideoFileEntry, 'seoData' | 'releaseReview' | 'classification'>,
+  terms: string[],
+): UsageLabel =>
+  video.classification?.editorial ||
+  (video.seoData && findRiskHits(video.seoData, terms).length) ||
+  reviewFindings(video.releaseReview).length
+    ? 'editorial'
+    : 'commercial';
+
+export const RELEASE_REVIEW_PROMPT = `Проверь это видео на риски для коммерческой продажи на стоках. Есть ли в кадре узнаваемые логотипы, бренды или товарные знаки; узнаваемые лица людей, для которых нужен model release; узнаваемые достопримечательности или частная собственность, для которых нужен property release? Перечисли найденное на английском и передай результат в set_release_risks. Если ничего нет, передай пустые списки и false.`;
+
+export class ReleaseReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReleaseReviewError';
+  }
+}
+
+const stringList = (value: any) =>
+  Array.isArray(value)
+    ? value.filter((v) => typeof v === 'string' && v.trim()).map((v) => v.trim())
+    : [];
+
+export const releaseReviewFromResponse = (resp: {
+  functionCalls: {name: string; args: any}[];
+}): ReleaseReview => {
+  const call = resp.functionCalls.find((fc) => fc.name === 'set_release_risks');
+  if (!call?.args || typeof call.args !== 'object') {
+    throw new ReleaseReviewError('Модель не вызвала set_release_risks.');
+  }
+  return {
+    logos: stringList(call.args.logos),
+    recognizablePeople: call.args.recognizablePeople === true,
+    landmarks: stringList(call.args.landmarks),
+    notes: typeof call.args.notes === 'string' ? call.args.notes.trim() : '',
+  };
+};
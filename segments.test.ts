@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {withSegments} from './segments';
+import {VideoFileEntry} from './types';
+
+const seoData = {title: 't', russianTitle: '', keywords: 'k'};
+
+describe('withSegments', () => {
+  it('gives segments that round to the same range unique names', () => {
+    const video = {
+      id: 'v',
+      name: 'beach.mp4',
+      segments: [
+        {id: 'a', start: 12.2, end: 20, seoData},
+        {id: 'b', start: 12.4, end: 19.8, seoData},
+      ],
+    } as VideoFileEntry;
+    expect(withSegments([video]).map((entry) => entry.name)).toEqual([
+      'beach.mp4',
+      'beach_0012-0020.mp4',
+      'beach_0012-0020_2.mp4',
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Segments of long videos. Each one is analysed on its own through the
+// provider's clipping offsets and exported as a separate clip.
+
+import {ExportEntry, VideoFileEntry, VideoProbe, VideoSegment} from './types';
+import {secsToTime} from './timecode';
+
+// Shots shorter than this are not worth selling on their own.
+export const MIN_SEGMENT = 2;
+
+const sortByStart = (segments: VideoSegment[]) =>
+  [...segments].sort((a, b) => a.start - b.start);
+
+export const addSegment = (
+  segments: VideoSegment[] = [],
+  start: number,
+  end: number,
+) =>
+  sortByStart([
+    ...segments,
+    {
+      id: self.crypto.randomUUID(),
+      start: Math.min(start, end),
+      end: Math.max(start, end),
+    },
+  ]);
+
+// One segment per shot between detected cuts; existing ranges are kept.
+export const segmentsFromCuts = (
+  segments: VideoSegment[] = [],
+  cuts: number[],
+  duration: number,
+) => {
+  const bounds = [0, ...cuts.filter((c) => c > 0 && c < duration), duration];
+  return bounds.slice(1).reduce((list, end, i) => {
+    const start = bounds[i];
+    const exists = list.some(
+      (s) => Math.abs(s.start - start) < 0.1 && Math.abs(s.end - end) < 0.1,
+    );
+    return end - start < MIN_SEGMENT || exists
+      ? list
+      : addSegment(list, start, end);
+  }, segments);
+};
+
+export const formatRange = ({start, end}: VideoSegment) =>
+  `${secsToTime(start)}–${secsToTime(end)}`;
+
+// Agencies match CSV rows to uploaded files by name, so the name has to
+// match the clip cut from the range: "beach_0012-0020.mp4". Ranges that
+// round to a name in `taken` get a counter: "beach_0012-0020_2.mp4".
+export const segmentFileName = (
+  videoName: string,
+  {start, end}: VideoSegment,
+  taken = new Set<string>(),
+) => {
+  const stamp = (secs: number) =>
+    secsToTime(Math.round(secs)).replace(/:/g, '');
+  const dot = videoName.lastIndexOf('.');
+  const [stem, ext] =
+    dot > 0 ? [videoName.slice(0, dot), videoName.slice(dot)] : [videoName, ''];
+  const base = `${stem}_${stamp(start)}-${stamp(end)}`;
+  let name = `${base}${ext}`;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) {
+    name = `${base}_${i}${ext}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// Technical data of the clip cut from the range; the size is estimated
+// from the bitrate.
+export const segmentProbe = (
+  probe: VideoProbe | undefined,
+  {start, end}: VideoSegment,
+): VideoProbe | undefined =>
+  probe && {
+    ...probe,
+    duration: end - start,
+    fileSize: Math.round((probe.bitrate * (end - start)) / 8),
+    looped: false,
+  };
+
+// Videos followed by their segments that have metadata, for exports.
+// Segment names are unique across the whole export.
+export const withSegments = (videos: VideoFileEntry[]): ExportEntry[] => {
+  const taken = new Set(videos.map((video) => video.name.toLowerCase()));
+  return videos.flatMap((video) => [
+    video,
+    ...(video.segments || [])
+      .filter((segment) => segment.seoData)
+      .map((segment) => ({
+        ...video,
+        id: segment.id,
+        name: segmentFileName(video.name, segment, taken),
+        seoData: segment.seoData,
+        seoContext: segment.seoContext,
+        probe: segmentProbe(video.probe, segment),
+        classification: video.classification && {
+          ...video.classification,
+          looped: false,
+        },
+        segment,
+      })),
+  ]);
+};
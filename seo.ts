@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {SeoData} from './types';
+
+export const emptySeoData = (): SeoData => ({
+  title: '',
+  russianTitle: '',
+  keywords: '',
+});
+
+export class SeoValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeoValidationError';
+  }
+}
+
+// Checks `set_seo_metadata` arguments against the declared schema and
+// normalizes them into the comma-separated shape stored on the video.
+export const validateSeoArgs = (args: any): SeoData => {
+  if (!args || typeof args !== 'object') {
+    throw new SeoValidationError('модель не вернула метаданные.');
+  }
+  const {title, russianTitle, keywords} = args;
+  if (typeof title !== 'string' || !title.trim()) {
+    throw new SeoValidationError('поле title отсутствует или пустое.');
+  }
+  if (typeof russianTitle !== 'string') {
+    throw new SeoValidationError('поле russianTitle отсутствует.');
+  }
+  const keywordList = Array.isArray(keywords)
+    ? keywords
+    : typeof keywords === 'string'
+      ? keywords.split(',')
+      : null;
+  if (!keywordList || keywordList.some((k) => typeof k !== 'string')) {
+    throw new SeoValidationError('поле keywords должно быть списком строк.');
+  }
+  const cleaned = keywordList.map((k: string) => k.trim()).filter(Boolean);
+  if (cleaned.length === 0) {
+    throw new SeoValidationError('список keywords пуст.');
+  }
+  return {
+    title: title.trim(),
+    russianTitle: russianTitle.trim(),
+    keywords: cleaned.join(', '),
+  };
+};
+
+// Picks the `set_seo_metadata` call out of a normalized model response.
+export const seoDataFromResponse = (resp: {
+  functionCalls: {name: string; args: any}[];
+}): SeoData => {
+  const call = resp.functionCalls.find((fc) => fc.name === 'set_seo_metadata');
+  if (!call) {
+    throw new SeoValidationError('модель не вызвала set_seo_metadata.');
+  }
+  return validateSeoArgs(call.args);
+};
+
+// Stored as the text response so older tooling and the fallback parser
+// below can still read it.
+export const formatSeoText = ({title, russianTitle, keywords}: SeoData) =>
+  `Title: ${title}\nRussian Title: ${russianTitle}\nKeywords: ${keywords}`;
+
+// Fallback for responses saved before structured output: pulls the sections
+// out of free text.
+export const parseSeoResponse = (text: string | null): SeoData => {
+  if (!text) return emptySeoData();
+
+  const clean = (str: string | undefined) =>
+    (str || '').replace(/\*/g, '').trim();
+
+  const allHeaders = [
+    'Заголовок',
+    'Title',
+    'Russian Title',
+    'Русский заголовок',
+    'Ключевые слова',
+    'Keywords',
+  ];
+
+  const getSectionContent = (currentHeaders: string[]) => {
+    const lookaheadHeaders = allHeaders.filter(
+      (h) => !currentHeaders.some((ch) => h.toLowerCase() === ch.toLowerCase()),
+    );
+
+    const regex = new RegExp(
+      `\\**\\s*(?:${currentHeaders.join('|')})\\**\\s*:\\s*([\\s\\S]*?)(?=\\n\\s*\\**\\s*(?:${lookaheadHeaders.join('|')})\\**\\s*:|$)`,
+      'i',
+    );
+
+    const match = text.match(regex);
+    return match ? clean(match[1]) : '';
+  };
+
+  return {
+    title: getSectionContent(['Заголовок', 'Title']),
+    russianTitle: getSectionContent(['Russian Title', 'Русский заголовок']),
+    keywords: getSectionContent(['Ключевые слова', 'Keywords']),
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Local scene cut detection. Frames are sampled from a <video> element at a
+// fixed step; colour histograms of consecutive samples are computed in a
+// worker and a cut is reported where their difference spikes. Cuts are shown
+// on the scrubber, snap model timecodes and are passed to prompts as hints.
+
+import {secsToTime} from './timecode';
+import {loadVideo, seek} from './videoProbe';
+
+export const FRAME_WIDTH = 64;
+export const FRAME_HEIGHT = 36;
+// Histogram bins per colour channel.
+const BINS = 16;
+const MIN_STEP = 0.2;
+const MAX_SAMPLES = 900;
+// A cut needs a histogram distance above this and well above the clip's
+// typical frame-to-frame change, so camera motion is not reported.
+const MIN_DISTANCE = 0.3;
+const MEDIAN_FACTOR = 4;
+const MIN_SHOT = 0.5;
+// Model timecodes this close to a cut are moved onto it.
+export const SNAP_TOLERANCE = 0.5;
+
+export const colorHistogram = (pixels: Uint8ClampedArray) => {
+  const histogram = new Float32Array(BINS * 3);
+  const shift = 8 - Math.log2(BINS);
+  const count = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[pixels[i] >> shift]++;
+    histogram[BINS + (pixels[i + 1] >> shift)]++;
+    histogram[2 * BINS + (pixels[i + 2] >> shift)]++;
+  }
+  return histogram.map((v) => v / count);
+};
+
+// 0 for identical colour distributions, 1 for disjoint ones.
+export const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 6;
+};
+
+// `time` of a sample is the midpoint between the two compared frames.
+export const findCuts = (samples: {time: number; distance: number}[]) => {
+  const sorted = samples.map((s) => s.distance).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)] || 0;
+  const threshold = Math.max(MIN_DISTANCE, median * MEDIAN_FACTOR);
+  const cuts: number[] = [];
+  samples.forEach((sample, i) => {
+    if (sample.distance < threshold) return;
+    // A dissolve spans several samples; only its peak counts.
+    if ((samples[i - 1]?.distance ?? 0) > sample.distance) return;
+    if ((samples[i + 1]?.distance ?? 0) > sample.distance) return;
+    if (cuts.length && sample.time - cuts[cuts.length - 1] < MIN_SHOT) return;
+    cuts.push(sample.time);
+  });
+  return cuts;
+};
+
+export const nearestCut = (
+  secs: number,
+  cuts: number[],
+  tolerance = SNAP_TOLERANCE,
+) => {
+  let best: number | null = null;
+  cuts.forEach((cut) => {
+    if (
+      Math.abs(cut - secs) <= tolerance &&
+      (best === null || Math.abs(cut - secs) < Math.abs(best - secs))
+    ) {
+      best = cut;
+    }
+  });
+  return best;
+};
+
+interface Histogrammer {
+  histogram(video: HTMLVideoElement): Promise<Float32Array>;
+  close(): void;
+}
+
+const workerHistogrammer = (): Histogrammer => {
+  const worker = new Worker(new URL('./shotWorker.ts', import.meta.url), {
+    type: 'module',
+  });
+  // A module worker that fails to load reports it asynchronously, possibly
+  // before the first frame is sent, so the failure is kept.
+  let failure: Error | null = null;
+  let pending: {
+    resolve: (histogram: Float32Array) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  worker.onmessage = ({data}) => {
+    const request = pending;
+    pending = null;
+    if (data.error) request?.reject(new Error(data.error));
+    else request?.resolve(data.histogram);
+  };
+  const onError = (e: Event) => {
+    failure = new Error((e as ErrorEvent).message || 'Shot worker failed');
+    pending?.reject(failure);
+    pending = null;
+  };
+  worker.onerror = onError;
+  worker.onmessageerror = onError;
+  return {
+    async histogram(video) {
+      if (failure) throw failure;
+      const bitmap = await createImageBitmap(video, {
+        resizeWidth: FRAME_WIDTH,
+        resizeHeight: FRAME_HEIGHT,
+      });
+      if (failure) throw failure;
+      return new Promise((resolve, reject) => {
+        pending = {resolve, reject};
+        worker.postMessage(bitmap, [bitmap]);
+      });
+    },
+    close: () => worker.terminate(),
+  };
+};
+
+const mainThreadHistogrammer = (): Histogrammer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d', {willReadFrequently: true});
+  return {
+    async histogram(video) {
+      ctx.drawImage(video, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+      return colorHistogram(
+        ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT).data,
+      );
+    },
+    close: () => {},
+  };
+};
+
+// Uses the worker where possible; when it fails, the frame is retried and
+// the rest of the video analysed on the main thread.
+const createHistogrammer = (): Histogrammer => {
+  let worker: Histogrammer | null = null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    try {
+      worker = workerHistogrammer();
+    } catch (e) {
+      console.warn('Shot detection worker unavailable', e);
+    }
+  }
+  if (!worker) return mainThreadHistogrammer();
+
+  let current = worker;
+  return {
+    async histogram(video) {
+      try {
+        return await current.histogram(video);
+      } catch (e) {
+        if (current !== worker) throw e;
+        console.warn('Shot detection worker failed, using main thread', e);
+        worker.close();
+        current = mainThreadHistogrammer();
+        return current.histogram(video);
+      }
+    },
+    close: () => current.close(),
+  };
+};
+
+// Cut times in seconds, in order.
+export async function detectShots(url: string): Promise<number[]> {
+  const video = await loadVideo(url);
+  const histogrammer = createHistogrammer();
+  try {
+    const step = Math.max(MIN_STEP, video.duration / MAX_SAMPLES);
+    const samples: {time: number; distance: number}[] = [];
+    let previous: Float32Array | null = null;
+    for (let time = 0; time < video.duration; time += step) {
+      await seek(video, time);
+      const current = await histogrammer.histogram(video);
+      if (previous) {
+        samples.push({
+          time: Math.round((time - step / 2) * 1000) / 1000,
+          distance: histogramDistance(previous, current),
+        });
+      }
+      previous = current;
+    }
+    return findCuts(samples);
+  } finally {
+    histogrammer.close();
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+export const formatCuts = (cuts: number[] = []) =>
+  cuts.map(secsToTime).join(', ');
+
+// Appended to timecode prompts that do not use `{{cuts}}`.
+export const shotPromptNote = (cuts: number[]) =>
+  `Локальный анализ нашёл смены плана (монтажные склейки) на ${formatCuts(cuts)}. Используй их как границы сегментов: события, которые начинаются со сменой плана, ставь точно на склейку.`;
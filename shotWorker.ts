@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {FRAME_HEIGHT, FRAME_WIDTH, colorHistogram} from './shotDetection';
+
+const canvas = new OffscreenCanvas(FRAME_WIDTH, FRAME_HEIGHT);
+const ctx = canvas.getContext('2d', {willReadFrequently: true});
+
+self.addEventListener('message', (e: MessageEvent<ImageBitmap>) => {
+  try {
+    ctx.drawImage(e.data, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    e.data.close();
+    const {data} = ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+    self.postMessage({histogram: colorHistogram(data)});
+  } catch (error) {
+    self.postMessage({error: String(error)});
+  }
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {shutterstockCategory} from './classification';
+import {ExportEntry, StockClassification} from './types';
+import {secsToTime} from './timecode';
+import {stripExtension} from './utils';
+import {probeVariables} from './videoProbe';
+
+export interface StockItem {
+  fileName: string;
+  title: string;
+  keywords: string[];
+  // Flagged by the risk check; see riskTerms.ts.
+  editorial: boolean;
+  classification?: StockClassification;
+}
+
+export interface StockIssue {
+  fileName: string;
+  message: string;
+}
+
+interface AgencyFormat {
+  label: string;
+  csvName: string;
+  // How the agency matches a CSV row to an uploaded file.
+  fileName: (name: string) => string;
+  keywordSeparator: string;
+  limits: {
+    titleMax: number;
+    titleMinWords?: number;
+    keywordsMin: number;
+    keywordsMax: number;
+    singleWordKeywords?: boolean;
+  };
+  columns: {header: string; value: (item: StockItem, agency: AgencyFormat) => string}[];
+}
+
+const fileNameColumn = (header: string) => ({
+  header,
+  value: (item: StockItem, agency: AgencyFormat) => agency.fileName(item.fileName),
+});
+
+const keywordsColumn = (header: string) => ({
+  header,
+  value: (item: StockItem, agency: AgencyFormat) =>
+    item.keywords.join(agency.keywordSeparator),
+});
+
+export const agencies = {
+  adobe: {
+    label: 'Adobe Stock',
+    csvName: 'adobe_stock.csv',
+    fileName: (name) => name,
+    keywordSeparator: ', ',
+    limits: {titleMax: 200, keywordsMin: 1, keywordsMax: 49},
+    columns: [
+      fileNameColumn('Filename'),
+      {header: 'Title', value: (item) => item.title},
+      keywordsColumn('Keywords'),
+      {
+        header: 'Category',
+        value: (item) => `${item.classification?.category ?? ''}`,
+      },
+      {header: 'Releases', value: () => ''},
+    ],
+  },
+  shutterstock: {
+    label: 'Shutterstock',
+    csvName: 'shutterstock.csv',
+    fileName: (name) => name,
+    keywordSeparator: ',',
+    limits: {titleMax: 200, titleMinWords: 5, keywordsMin: 7, keywordsMax: 50},
+    columns: [
+      fileNameColumn('Filename'),
+      {header: 'Description', value: (item) => item.title},
+      keywordsColumn('Keywords'),
+      {
+        header: 'Categories',
+        value: (item) => shutterstockCategory(item.classification?.category),
+      },
+      {header: 'Editorial', value: (item) => (item.editorial ? 'yes' : 'no')},
+      {header: 'Mature content', value: () => 'no'},
+      {header: 'illustration', value: () => 'no'},
+    ],
+  },
+  pond5: {
+    label: 'Pond5',
+    csvName: 'pond5.csv',
+    // Pond5 matches rows by the original name without its extension.
+    fileName: (name) => stripExtension(name),
+    keywordSeparator: ' ',
+    limits: {
+      titleMax: 100,
+      keywordsMin: 5,
+      keywordsMax: 50,
+      singleWordKeywords: true,
+    },
+    columns: [
+      fileNameColumn('originalfilename'),
+      {header: 'title', value: (item) => item.title},
+      {header: 'description', value: (item) => item.title},
+      keywordsColumn('keywords'),
+      {header: 'location', value: () => ''},
+      {header: 'price', value: () => ''},
+    ],
+  },
+} satisfies Record<string, AgencyFormat>;
+
+export type AgencyId = keyof typeof agencies;
+
+export const parseKeywords = (keywords: string) =>
+  keywords
+    .split(/[,\n;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+export const toStockItem = (
+  video: {
+    name: string;
+    seoData?: {title: string; keywords: string};
+    classification?: StockClassification;
+  },
+  editorial = false,
+): StockItem => ({
+  fileName: video.name,
+  title: (video.seoData?.title || '').replace(/\s+/g, ' ').trim(),
+  keywords: parseKeywords(video.seoData?.keywords || ''),
+  editorial,
+  classification: video.classification,
+});
+
+export const validateStockItem = (
+  agencyId: AgencyId,
+  item: StockItem,
+): StockIssue[] => {
+  const {limits}: AgencyFormat = agencies[agencyId];
+  const issues: string[] = [];
+
+  if (!item.title) {
+    issues.push('нет заголовка');
+  } else if (item.title.length > limits.titleMax) {
+    issues.push(
+      `заголовок длиннее ${limits.titleMax} символов (${item.title.length})`,
+    );
+  }
+  if (
+    limits.titleMinWords &&
+    item.title.split(' ').filter(Boolean).length < limits.titleMinWords
+  ) {
+    issues.push(`в заголовке меньше ${limits.titleMinWords} слов`);
+  }
+  if (item.keywords.length < limits.keywordsMin) {
+    issues.push(
+      `ключевых слов меньше ${limits.keywordsMin} (${item.keywords.length})`,
+    );
+  }
+  if (item.keywords.length > limits.keywordsMax) {
+    issues.push(
+      `ключевых слов больше ${limits.keywordsMax} (${item.keywords.length})`,
+    );
+  }
+  if (limits.singleWordKeywords) {
+    const multiWord = item.keywords.filter((k) => /\s/.test(k));
+    if (multiWord.length) {
+      issues.push(`составные ключевые слова: ${multiWord.join(', ')}`);
+    }
+  }
+
+  return issues.map((message) => ({fileName: item.fileName, message}));
+};
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+export const buildStockCsv = (agencyId: AgencyId, items: StockItem[]) => {
+  const agency: AgencyFormat = agencies[agencyId];
+  return toCsv([
+    agency.columns.map((col) => col.header),
+    ...items.map((item) => agency.columns.map((col) => col.value(item, agency))),
+  ]);
+};
+
+const yesNo = (value?: boolean) =>
+  value === undefined ? '' : value ? 'yes' : 'no';
+
+// Everything we know about each video, for our own DAM rather than an agency.
+const metadataColumns: {
+  header: string;
+  value: (video: ExportEntry, usage: string) => string;
+}[] = [
+  {header: 'filename', value: (v) => v.name},
+  // Range of a segment within its source video; empty for whole videos.
+  {
+    header: 'segment_start',
+    value: (v) => (v.segment ? secsToTime(v.segment.start) : ''),
+  },
+  {
+    header: 'segment_end',
+    value: (v) => (v.segment ? secsToTime(v.segment.end) : ''),
+  },
+  {header: 'title', value: (v) => toStockItem(v).title},
+  {header: 'russian_title', value: (v) => v.seoData?.russianTitle || ''},
+  {header: 'keywords', value: (v) => toStockItem(v).keywords.join(', ')},
+  {header: 'usage', value: (v, usage) => usage},
+  {
+    header: 'category',
+    value: (v) => `${v.classification?.category ?? ''}`,
+  },
+  {
+    header: 'ai_generated',
+    value: (v) => yesNo(v.classification?.aiGenerated),
+  },
+  {
+    header: 'people',
+    value: (v) => yesNo(v.classification?.containsPeople),
+  },
+  ...(
+    [
+      'duration',
+      'resolution',
+      'width',
+      'height',
+      'fps',
+      'codec',
+      'bitrate',
+      'fileSize',
+      'alpha',
+    ] as const
+  ).map((key) => ({
+    header: key.replace(/[A-Z]/g, (ch) => `_${ch.toLowerCase()}`),
+    value: (v: ExportEntry) => probeVariables(v.probe)[key],
+  })),
+  // The classification, possibly corrected by hand, wins over the probe.
+  {
+    header: 'looped',
+    value: (v) => yesNo(v.classification?.looped ?? v.probe?.looped),
+  },
+];
+
+// `usage` is the commercial/editorial label computed by the caller.
+export const buildMetadataCsv = (
+  videos: ExportEntry[],
+  usage: (video: ExportEntry) => string,
+) =>
+  toCsv([
+    metadataColumns.map((col) => col.header),
+    ...videos.map((video) =>
+      metadataColumns.map((col) => col.value(video, usage(video))),
+    ),
+  ]);
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {CachedResponse, UsageRecord, VideoFileEntry} from './types';
+
+const DB_NAME = 'video-metadata-generator';
+const DB_VERSION = 3;
+const VIDEOS = 'videos';
+const BLOBS = 'blobs';
+const USAGE = 'usage';
+const UPLOADS = 'uploads';
+const RESPONSES = 'responses';
+const KEEP_BLOBS_KEY = 'keepVideoBlobs';
+const ACTIVE_VIDEO_KEY = 'activeVideoId';
+const PROMPT_INPUTS_KEY = 'promptInputs';
+
+// Gemini keeps uploaded files for 48 hours. Treat handles as expired a little
+// early so a generation request never races the deletion.
+const GEMINI_FILE_TTL = 48 * 60 * 60 * 1000;
+const EXPIRY_MARGIN = 10 * 60 * 1000;
+
+type StoredVideo = Omit<VideoFileEntry, 'url' | 'file'> & {order: number};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VIDEOS)) {
+        db.createObjectStore(VIDEOS, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(BLOBS)) {
+        db.createObjectStore(BLOBS);
+      }
+      if (!db.objectStoreNames.contains(USAGE)) {
+        db.createObjectStore(USAGE, {keyPath: 'id'});
+      }
+      if (!db.objectStoreNames.contains(UPLOADS)) {
+        db.createObjectStore(UPLOADS);
+      }
+      if (!db.objectStoreNames.contains(RESPONSES)) {
+        db.createObjectStore(RESPONSES, {keyPath: 'key'});
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const geminiFileExpiry = (geminiFile: any): number | null => {
+  if (!geminiFile) return null;
+  if (geminiFile.expirationTime) {
+    return new Date(geminiFile.expirationTime).getTime();
+  }
+  if (geminiFile.createTime) {
+    return new Date(geminiFile.createTime).getTime() + GEMINI_FILE_TTL;
+  }
+  return null;
+};
+
+export const isGeminiFileExpired = (geminiFile: any) => {
+  const expiry = geminiFileExpiry(geminiFile);
+  return expiry !== null && expiry - EXPIRY_MARGIN < Date.now();
+};
+
+export const getKeepBlobs = () => localStorage.getItem(KEEP_BLOBS_KEY) === '1';
+
+export const setKeepBlobs = (keep: boolean) =>
+  localStorage.setItem(KEEP_BLOBS_KEY, keep ? '1' : '0');
+
+export const getStoredActiveVideoId = () =>
+  localStorage.getItem(ACTIVE_VIDEO_KEY);
+
+export const setStoredActiveVideoId = (id: string | null) =>
+  id
+    ? localStorage.setItem(ACTIVE_VIDEO_KEY, id)
+    : localStorage.removeItem(ACTIVE_VIDEO_KEY);
+
+// Language and collection outlive a single run; the context does not.
+export const getStoredPromptInputs = (): {language: string; collection: string} => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROMPT_INPUTS_KEY) || '{}');
+    return {
+      language: `${stored.language ?? ''}`,
+      collection: `${stored.collection ?? ''}`,
+    };
+  } catch {
+    return {language: '', collection: ''};
+  }
+};
+
+export const setStoredPromptInputs = (inputs: {
+  language: string;
+  collection: string;
+}) => localStorage.setItem(PROMPT_INPUTS_KEY, JSON.stringify(inputs));
+
+const toStoredVideo = (
+  {url, file, ...rest}: VideoFileEntry,
+  order: number,
+): StoredVideo => ({
+  ...rest,
+  // SDK objects may carry non-cloneable members; keep only plain data.
+  geminiFile: rest.geminiFile
+    ? JSON.parse(JSON.stringify(rest.geminiFile))
+    : null,
+  order,
+});
+
+export async function saveLibrary(videos: VideoFileEntry[], keepBlobs: boolean) {
+  const db = await openDb();
+  const tx = db.transaction([VIDEOS, BLOBS], 'readwrite');
+  const videoStore = tx.objectStore(VIDEOS);
+  const blobStore = tx.objectStore(BLOBS);
+
+  videoStore.clear();
+  videos.forEach((v, i) => videoStore.put(toStoredVideo(v, i)));
+
+  const ids = new Set(videos.map((v) => v.id));
+  const storedBlobIds = (await promisify(blobStore.getAllKeys())) as string[];
+  storedBlobIds
+    .filter((id) => !keepBlobs || !ids.has(id))
+    .forEach((id) => blobStore.delete(id));
+  if (keepBlobs) {
+    videos
+      .filter((v) => v.file && !storedBlobIds.includes(v.id))
+      .forEach((v) => blobStore.put(v.file, v.id));
+  }
+
+  await transactionDone(tx);
+}
+
+export async function loadLibrary(): Promise<VideoFileEntry[]> {
+  const db = await openDb();
+  const tx = db.transaction([VIDEOS, BLOBS], 'readonly');
+  const stored = (await promisify(
+    tx.objectStore(VIDEOS).getAll(),
+  )) as StoredVideo[];
+  const blobStore = tx.objectStore(BLOBS);
+
+  const videos = await Promise.all(
+    stored
+      .sort((a, b) => a.order - b.order)
+      .map(async ({order, ...video}) => {
+        const file = ((await promisify(blobStore.get(video.id))) ??
+          null) as File | null;
+        return {
+          ...video,
+          file,
+          url: file ? URL.createObjectURL(file) : '',
+          geminiFile: isGeminiFileExpired(video.geminiFile)
+            ? null
+            : video.geminiFile,
+        };
+      }),
+  );
+  return videos;
+}
+
+export async function addUsageRecord(record: UsageRecord) {
+  const db = await openDb();
+  const tx = db.transaction(USAGE, 'readwrite');
+  tx.objectStore(USAGE).put(record);
+  await transactionDone(tx);
+}
+
+export async function loadUsageRecords(): Promise<UsageRecord[]> {
+  const db = await openDb();
+  const records = (await promisify(
+    db.transaction(USAGE, 'readonly').objectStore(USAGE).getAll(),
+  )) as UsageRecord[];
+  return records.sort((a, b) => a.time - b.time);
+}
+
+export async function clearUsageRecords() {
+  const db = await openDb();
+  const tx = db.transaction(USAGE, 'readwrite');
+  tx.objectStore(USAGE).clear();
+  await transactionDone(tx);
+}
+
+// Provider file handles by content hash, so a clip added again is not
+// uploaded twice while the earlier upload is alive.
+export async function getStoredUpload(key: string) {
+  const db = await openDb();
+  const geminiFile = await promisify(
+    db.transaction(UPLOADS, 'readonly').objectStore(UPLOADS).get(key),
+  );
+  return geminiFile && !isGeminiFileExpired(geminiFile) ? geminiFile : null;
+}
+
+export async function putStoredUpload(key: string, geminiFile: any) {
+  const db = await openDb();
+  const tx = db.transaction(UPLOADS, 'readwrite');
+  const store = tx.objectStore(UPLOADS);
+  store.put(JSON.parse(JSON.stringify(geminiFile)), key);
+  // Expired handles are dropped whenever a new one is saved.
+  const keys = (await promisify(store.getAllKeys())) as string[];
+  const files = await promisify(store.getAll());
+  keys.forEach((k, i) => isGeminiFileExpired(files[i]) && store.delete(k));
+  await transactionDone(tx);
+}
+
+export async function getCachedResponse(
+  key: string,
+): Promise<CachedResponse | null> {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSES, 'readwrite');
+  const store = tx.objectStore(RESPONSES);
+  const entry = (await promisify(store.get(key))) as CachedResponse | undefined;
+  if (entry) store.put({...entry, usedAt: Date.now()});
+  await transactionDone(tx);
+  return entry ?? null;
+}
+
+// Least recently used entries are evicted once the cache exceeds maxBytes.
+export async function putCachedResponse(
+  entry: CachedResponse,
+  maxBytes: number,
+) {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSES, 'readwrite');
+  const store = tx.objectStore(RESPONSES);
+  store.put(entry);
+  const entries = (await promisify(store.getAll())) as CachedResponse[];
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  entries
+    .sort((a, b) => a.usedAt - b.usedAt)
+    .forEach((e) => {
+      if (total <= maxBytes || e.key === entry.key) return;
+      store.delete(e.key);
+      total -= e.size;
+    });
+  await transactionDone(tx);
+}
+
+export async function getResponseCacheStats() {
+  const db = await openDb();
+  const entries = (await promisify(
+    db.transaction(RESPONSES, 'readonly').objectStore(RESPONSES).getAll(),
+  )) as CachedResponse[];
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+  };
+}
+
+export async function clearResponseCache() {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSES, 'readwrite');
+  tx.objectStore(RESPONSES).clear();
+  await transactionDone(tx);
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Streamed generation. Function call arguments are not streamed, so SEO and
+// subtitle modes ask for plain text in a fixed format instead, which can be
+// parsed while it arrives. That gives up the validated function call, so
+// streaming is off unless the user turns it on.
+
+import {ModeOutput} from './modes';
+import {parseSeoResponse} from './seo';
+
+const STORAGE_KEY = 'streamOutput';
+
+export const CUE_LINE_FORMAT = 'MM:SS - текст';
+
+export const getStreaming = () => localStorage.getItem(STORAGE_KEY) === 'true';
+
+export const setStreaming = (value: boolean) =>
+  localStorage.setItem(STORAGE_KEY, `${value}`);
+
+const STREAMED_OUTPUTS: ModeOutput[] = ['text', 'seo', 'timecodes'];
+
+export const canStream = (output: ModeOutput) =>
+  STREAMED_OUTPUTS.includes(output);
+
+// Appended to the mode prompt in place of its function call.
+export const streamInstruction = (output: ModeOutput) => {
+  switch (output) {
+    case 'seo':
+      return `Функции недоступны: вместо set_seo_metadata ответь только текстом ровно из трёх строк:
+Title: заголовок на английском
+Russian Title: заголовок на русском
+Keywords: ключевые слова на английском через запятую`;
+    case 'timecodes':
+      return `Функции недоступны: вместо set_timecodes ответь только текстом, по одному таймкоду на строку в формате "${CUE_LINE_FORMAT}", в порядке времени.`;
+    default:
+      return null;
+  }
+};
+
+// Cues from "MM:SS - text" lines. While the stream is open the last line may
+// still be growing, so it is left out.
+export const parseCueLines = (text: string, complete: boolean) => {
+  const lines = text.split('\n');
+  if (!complete) lines.pop();
+  return lines.flatMap((line) => {
+    const match = line.match(/^\s*[-*•]?\s*\[?(\d[\d:.,;]*)\]?\s*[-–—]\s*(.+)$/);
+    return match ? [{time: match[1], text: match[2].trim()}] : [];
+  });
+};
+
+// SEO fields so far. A last line without its colon is a header still being
+// written ("Russian Ti") and would otherwise end up in the title.
+export const parseStreamedSeo = (text: string) => {
+  const lines = text.split('\n');
+  if (!lines[lines.length - 1].includes(':')) lines.pop();
+  return parseSeoResponse(lines.join('\n'));
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {SubtitleParseError, parseSubtitles} from './subtitles';
+
+describe('parseSubtitles', () => {
+  it('reads SRT with hours and comma fractions', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,500',
+      'First line',
+      'second line',
+      '',
+      '2',
+      '01:02:03,250 --> 01:02:05,000',
+      'Later',
+      '',
+    ].join('\n');
+    expect(parseSubtitles(srt)).toEqual([
+      {start: 1, end: 3.5, text: 'First line\nsecond line'},
+      {start: 3723.25, end: 3725, text: 'Later'},
+    ]);
+  });
+
+  it('reads WebVTT with a header, NOTE blocks, cue settings and tags', () => {
+    const vtt = [
+      'WEBVTT - Example',
+      '',
+      'NOTE This is a comment',
+      'spanning two lines',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.500 align:start position:10%',
+      '<v Anna>Hello <b>there</b></v>',
+      '',
+      '00:00:03.000 --> 00:00:04.000',
+      '<i>Bye</i>',
+    ].join('\n');
+    expect(parseSubtitles(vtt)).toEqual([
+      {start: 1, end: 2.5, text: 'Hello there'},
+      {start: 3, end: 4, text: 'Bye'},
+    ]);
+  });
+
+  it('reads CRLF files with a byte order mark', () => {
+    const srt =
+      '\uFEFF1\r\n00:00:05,000 --> 00:00:06,000\r\nText\r\n\r\n' +
+      '2\r\n00:00:07,000 --> 00:00:08,000\r\nMore\r\n';
+    expect(parseSubtitles(srt)).toEqual([
+      {start: 5, end: 6, text: 'Text'},
+      {start: 7, end: 8, text: 'More'},
+    ]);
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here')).toThrow(
+      SubtitleParseError,
+    );
+  });
+});
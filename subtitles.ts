@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {TimecodeItem} from './cueEdits';
+import {formatTimestamp, secsToTime, timeToSecs} from './timecode';
+import {stripExtension} from './utils';
+
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Used for the last cue when the video duration is unknown.
+const DEFAULT_CUE_LENGTH = 3;
+
+// Model cues usually carry only a start time, so each cue ends where the
+// next one begins and the last one ends with the video. Imported cues keep
+// their own end unless it overlaps the next cue.
+export const toCues = (
+  timecodeList: {time: string; end?: string; text: string}[],
+  duration?: number,
+): Cue[] => {
+  const sorted = timecodeList
+    .map((t) => ({
+      start: timeToSecs(t.time),
+      end: t.end ? timeToSecs(t.end) : NaN,
+      text: t.text,
+    }))
+    .filter((t) => Number.isFinite(t.start))
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.map((t, i) => {
+    const next = sorted[i + 1];
+    let end = next
+      ? next.start
+      : duration && duration > t.start
+        ? duration
+        : t.start + DEFAULT_CUE_LENGTH;
+    if (t.end > t.start && t.end < end) end = t.end;
+    if (end <= t.start) end = t.start + DEFAULT_CUE_LENGTH;
+    // A blank line would terminate the cue early in both SRT and WebVTT.
+    return {start: t.start, end, text: t.text.trim().replace(/\n{2,}/g, '\n')};
+  });
+};
+
+export const toSrt = (cues: Cue[]) =>
+  cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`,
+    )
+    .join('\n');
+
+export const toVtt = (cues: Cue[]) =>
+  'WEBVTT\n\n' +
+  cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`,
+    )
+    .join('\n');
+
+export const toTranscript = (cues: Cue[]) =>
+  cues.map((cue) => cue.text).join('\n') + '\n';
+
+export const subtitleFormats = {
+  srt: {label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip', build: toSrt},
+  vtt: {label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt', build: toVtt},
+  txt: {label: 'Текст', extension: 'txt', mimeType: 'text/plain', build: toTranscript},
+};
+
+export type SubtitleFormat = keyof typeof subtitleFormats;
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+// Parses SRT or WebVTT: blocks separated by blank lines, each with a
+// "start --> end" line followed by the text. Cue numbers, WebVTT headers,
+// NOTE/STYLE blocks, cue settings and inline tags are dropped.
+export const parseSubtitles = (content: string): Cue[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/);
+  const cues: Cue[] = [];
+  blocks.forEach((block) => {
+    const lines = block.split('\n');
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    if (timing === -1) return;
+    const [start, end] = lines[timing]
+      .split('-->')
+      .map((part) => timeToSecs(part.trim().split(/\s+/)[0]));
+    const text = lines
+      .slice(timing + 1)
+      .join('\n')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+    if (Number.isFinite(start) && Number.isFinite(end) && text) {
+      cues.push({start, end: Math.max(start, end), text});
+    }
+  });
+  if (cues.length === 0) {
+    throw new SubtitleParseError('В файле не найдено ни одного субтитра.');
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const fromCues = (cues: Cue[]): TimecodeItem[] =>
+  cues.map((cue) => ({
+    time: secsToTime(cue.start),
+    end: secsToTime(cue.end),
+    text: cue.text,
+  }));
+
+export const subtitleFileName = (videoName: string, format: SubtitleFormat) =>
+  `${stripExtension(videoName)}.${subtitleFormats[format].extension}`;
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {normalizeTimecodes, secsToTime, timeToSecs} from './timecode';
+
+describe('timeToSecs', () => {
+  it.each([
+    ['62', 62],
+    ['62.5', 62.5],
+    ['62s', 62],
+    ['1m2s', 62],
+    ['1h2m3s', 3723],
+    ['1:02', 62],
+    ['1:02.500', 62.5],
+    ['00:01:02,500', 62.5],
+    ['00:01:02.500', 62.5],
+    ['[00:12]', 12],
+    ['00:01:02:12', 62.48],
+    ['00:01:02;12', 62.48],
+  ])('reads %s', (text, secs) => {
+    expect(timeToSecs(text)).toBeCloseTo(secs, 6);
+  });
+
+  it('reads SMPTE frames at the given frame rate', () => {
+    expect(timeToSecs('00:00:01:15', 30)).toBeCloseTo(1.5, 6);
+    expect(timeToSecs('00:00:01;29', 29.97)).toBeCloseTo(1 + 29 / 29.97, 6);
+  });
+
+  it.each(['', 'abc', '1:75', '1:60:00', '00:00:01:25', '12 sec later', '-5'])(
+    'gives NaN for %j',
+    (text) => {
+      expect(timeToSecs(text)).toBeNaN();
+    },
+  );
+});
+
+describe('secsToTime', () => {
+  it('adds hours and fractions only when needed', () => {
+    expect(secsToTime(62)).toBe('01:02');
+    expect(secsToTime(62.5)).toBe('01:02.500');
+    expect(secsToTime(3723)).toBe('1:02:03');
+  });
+});
+
+describe('normalizeTimecodes', () => {
+  it('reports invalid times and clamps, sorts and dedupes the rest', () => {
+    const {timecodes, invalid} = normalizeTimecodes(
+      [
+        {time: '0:20', text: 'b'},
+        {time: 'soon', text: 'x'},
+        {time: '5s', text: 'a'},
+        {time: '00:00:05,000', text: 'a'},
+        {time: '00:05', text: 'other'},
+        {time: '2:00', text: 'late'},
+      ],
+      {duration: 30},
+    );
+    expect(invalid).toEqual(['soon']);
+    expect(timecodes).toEqual([
+      {time: '00:05', text: 'a'},
+      {time: '00:05', text: 'other'},
+      {time: '00:20', text: 'b'},
+      {time: '00:30', text: 'late'},
+    ]);
+  });
+
+  it('keeps an end only when it follows the start', () => {
+    expect(
+      normalizeTimecodes([
+        {time: '1s', end: '3s', text: 'a'},
+        {time: '5s', end: '4s', text: 'b'},
+      ]).timecodes,
+    ).toEqual([
+      {time: '00:01', end: '00:03', text: 'a'},
+      {time: '00:05', text: 'b'},
+    ]);
+  });
+
+  it('clamps ends past the video to its duration', () => {
+    expect(
+      normalizeTimecodes([{time: '25', end: '40', text: 'a'}], {duration: 30})
+        .timecodes,
+    ).toEqual([{time: '00:25', end: '00:30', text: 'a'}]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Parsing and formatting of timecodes. Models and subtitle files write time
+// in many notations; everything is read here so that a timecode either
+// becomes seconds or is reported as invalid, never NaN on the timeline.
+
+// Used for SMPTE frames when the container did not report a frame rate.
+export const DEFAULT_FPS = 25;
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const UNITS = new RegExp(
+  String.raw`^(?:(${NUMBER})\s*h)?\s*(?:(${NUMBER})\s*m(?:in)?)?\s*(?:(${NUMBER})\s*s(?:ec)?)?$`,
+);
+
+const toNumber = (text = '0') => Number(text.replace(',', '.'));
+
+// Seconds from "62", "62.5", "62s", "1m2s", "1h2m3s", "1:02", "1:02.500",
+// "00:01:02,500" or SMPTE "00:01:02:12" / "00:01:02;12" (frames at `fps`).
+// NaN when the text is none of these.
+export const timeToSecs = (timecode: string, fps = DEFAULT_FPS) => {
+  const text = String(timecode)
+    .trim()
+    .toLowerCase()
+    .replace(/^[[(]|[\])]$/g, '');
+  if (!text) return NaN;
+
+  if (new RegExp(`^${NUMBER}$`).test(text)) return toNumber(text);
+
+  const units = text.match(UNITS);
+  if (units && (units[1] || units[2] || units[3])) {
+    return (
+      toNumber(units[1]) * 3600 + toNumber(units[2]) * 60 + toNumber(units[3])
+    );
+  }
+
+  const smpte = text.match(/^(\d+):(\d{1,2}):(\d{1,2})[:;](\d{1,2})$/);
+  if (smpte) {
+    const [, h, m, s, f] = smpte.map(Number);
+    if (m >= 60 || s >= 60 || f >= Math.ceil(fps)) return NaN;
+    return h * 3600 + m * 60 + s + f / fps;
+  }
+
+  const clock = text.match(
+    new RegExp(String.raw`^(?:(\d+):)?(\d+):(\d{1,2}(?:[.,]\d+)?)$`),
+  );
+  if (clock) {
+    const [, h, m, s] = clock;
+    const mins = Number(m);
+    const secs = toNumber(s);
+    if (secs >= 60 || (h !== undefined && mins >= 60)) return NaN;
+    return Number(h || 0) * 3600 + mins * 60 + secs;
+  }
+
+  return NaN;
+};
+
+// Inverse of `timeToSecs`: "MM:SS", "H:MM:SS" and a ".mmm" fraction only
+// when needed.
+export const secsToTime = (secs: number) => {
+  const ms = Math.round(secs * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const fraction = ms % 1000 ? `.${(ms % 1000).toString().padStart(3, '0')}` : '';
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${fraction}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
+
+// SRT ("00:01:02,500") and WebVTT ("00:01:02.500") timestamps.
+export const formatTimestamp = (secs: number, separator: string) => {
+  const ms = Math.round(secs * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const rest = ms % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(rest, 3)}`;
+};
+
+// Player clock: "1:05", whole seconds.
+export const formatClock = (secs: number) =>
+  `${Math.floor(secs / 60)}:${Math.floor(secs % 60)
+    .toString()
+    .padStart(2, '0')}`;
+
+export interface NormalizedTimecodes<T> {
+  timecodes: T[];
+  // Times as the model wrote them, for the cues that were dropped.
+  invalid: string[];
+}
+
+// Brings cues to one notation: unparseable times are dropped and reported,
+// the rest are clamped to the video, sorted and deduplicated.
+export const normalizeTimecodes = <T extends {time: string; end?: string}>(
+  list: T[],
+  {duration, fps}: {duration?: number; fps?: number} = {},
+): NormalizedTimecodes<T> => {
+  const clamp = (secs: number) =>
+    Math.max(0, duration > 0 ? Math.min(secs, duration) : secs);
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  const parsed = list.flatMap((cue) => {
+    const start = timeToSecs(cue.time, fps);
+    if (!Number.isFinite(start)) {
+      invalid.push(String(cue.time));
+      return [];
+    }
+    const end = cue.end ? timeToSecs(cue.end, fps) : NaN;
+    const time = secsToTime(clamp(start));
+    const {time: _time, end: _end, ...rest} = cue;
+    const key = `${time}\n${JSON.stringify(rest)}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    const next = {...cue, time};
+    delete next.end;
+    if (end > start) next.end = secsToTime(clamp(end));
+    return [{secs: clamp(start), cue: next}];
+  });
+  return {
+    timecodes: parsed.sort((a, b) => a.secs - b.secs).map(({cue}) => cue),
+    invalid,
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface SeoData {
+  title: string;
+  russianTitle: string;
+  keywords: string;
+}
+
+// Technical properties read locally from the file, see videoProbe.ts.
+export interface VideoProbe {
+  duration: number;
+  width: number;
+  height: number;
+  fileSize: number;
+  // Bits per second over the whole file.
+  bitrate: number;
+  // Container-derived fields, missing for formats we cannot parse (WebM).
+  frameRate?: number;
+  codec?: string;
+  hasAlpha?: boolean;
+  // First and last frames match, or the name says so.
+  looped?: boolean;
+}
+
+// Model's answer to "does the footage need a model or property release".
+export interface ReleaseReview {
+  logos: string[];
+  recognizablePeople: boolean;
+  landmarks: string[];
+  notes: string;
+}
+
+// Category (Adobe Stock numbering) and content flags for agency uploads.
+export interface StockClassification {
+  category: number;
+  editorial: boolean;
+  aiGenerated: boolean;
+  containsPeople: boolean;
+  looped: boolean;
+}
+
+// One model call, recorded locally for the usage panel.
+export interface UsageRecord {
+  id: string;
+  time: number;
+  provider: string;
+  model: string;
+  // Display name of the mode, or of the action for corrections and reviews.
+  mode: string;
+  videoId: string | null;
+  videoName: string;
+  inputTokens: number;
+  outputTokens: number;
+  videoTokens: number;
+}
+
+// A sellable range of a long video, with metadata of its own.
+export interface VideoSegment {
+  id: string;
+  // Seconds from the start of the video.
+  start: number;
+  end: number;
+  seoData?: SeoData;
+  seoContext?: string;
+}
+
+// Review progress of a video in the batch grid; missing means draft.
+export type ApprovalState = 'draft' | 'needsFix' | 'approved' | 'exported';
+
+// A model response saved in the local response cache.
+export interface CachedResponse {
+  key: string;
+  response: {
+    text: string;
+    functionCalls: {name: string; args: any}[];
+    model: string;
+  };
+  // Approximate size in bytes, for the cache limit.
+  size: number;
+  usedAt: number;
+}
+
+// FIX: The `Type.Blob` is an incorrect type. The `Type` enum from `@google/genai` is for
+// function calling schema definitions and does not have a `Blob` property.
+// It has been replaced with `any` to correctly type the Gemini file object.
+export interface VideoFileEntry {
+  id: string;
+  name: string;
+  // Empty when the entry was restored without its original blob.
+  url: string;
+  file: File | null;
+  geminiFile: any | null;
+  uploadError: string | null;
+  // SHA-256 of the file content, see contentHash.ts.
+  contentHash?: string;
+  // Persistence fields
+  seoData?: SeoData;
+  // Additional context the SEO metadata was generated with.
+  seoContext?: string;
+  textResponse?: string | null;
+  timecodeList?: any[] | null;
+  // Times from the last timecode result that could not be parsed; those
+  // cues were dropped.
+  invalidTimecodes?: string[];
+  // Numeric series from chart modes.
+  chartData?: {time: string; value: number}[] | null;
+  probe?: VideoProbe;
+  // Child clips marked on the scrubber or taken from scene cuts.
+  segments?: VideoSegment[];
+  // Scene cuts in seconds, see shotDetection.ts.
+  shotCuts?: number[];
+  // Small JPEG data URL for the review grid.
+  thumbnail?: string;
+  approval?: ApprovalState;
+  releaseReview?: ReleaseReview;
+  // From the classification mode, possibly overridden by hand.
+  classification?: StockClassification;
+  // Id of the mode that produced the latest result.
+  lastMode?: string;
+  // True when that result came from the local response cache.
+  fromCache?: boolean;
+}
+
+// A video or one of its segments, as a row of its own in exports.
+export type ExportEntry = VideoFileEntry & {segment?: VideoSegment};
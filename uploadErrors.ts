@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {isAbortError} from './jobQueue';
+
+export type UploadErrorKind =
+  | 'network'
+  | 'tooLarge'
+  | 'unsupported'
+  | 'processingFailed'
+  | 'timeout';
+
+const messages: Record<UploadErrorKind, string> = {
+  network: 'Сетевая ошибка при загрузке',
+  tooLarge: 'Файл слишком большой',
+  unsupported: 'Неподдерживаемый формат или кодек',
+  processingFailed: 'Ошибка обработки видео на сервере',
+  timeout: 'Превышено время ожидания обработки',
+};
+
+export class UploadError extends Error {
+  kind: UploadErrorKind;
+  // Read by the job queue to decide whether to retry.
+  retryable: boolean;
+
+  constructor(kind: UploadErrorKind, detail?: string) {
+    super(detail ? `${messages[kind]}: ${detail}` : messages[kind]);
+    this.name = 'UploadError';
+    this.kind = kind;
+    this.retryable = kind === 'network';
+  }
+}
+
+// Gemini accepts files up to 2 GB.
+export const MAX_UPLOAD_BYTES = 2 * 1024 ** 3;
+
+export const SUPPORTED_VIDEO_TYPES = [
+  'video/mp4',
+  'video/mpeg',
+  'video/mov',
+  'video/quicktime',
+  'video/avi',
+  'video/x-msvideo',
+  'video/x-flv',
+  'video/mpg',
+  'video/webm',
+  'video/wmv',
+  'video/x-ms-wmv',
+  'video/3gpp',
+];
+
+export const checkUploadable = (file: File) => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(
+      'tooLarge',
+      `${(file.size / 1024 ** 3).toFixed(1)} ГБ, максимум 2 ГБ`,
+    );
+  }
+  if (!SUPPORTED_VIDEO_TYPES.includes(file.type)) {
+    throw new UploadError('unsupported', file.type || 'неизвестный тип');
+  }
+};
+
+// Maps whatever a provider threw onto a typed upload error. Aborts are
+// passed through, so the job queue reports them as cancelled.
+export const toUploadError = (e: any): Error => {
+  if (e instanceof UploadError || isAbortError(e)) return e;
+  const message = String(e?.message || e);
+  const status =
+    e?.status ?? Number(message.match(/got status: (\d{3})/)?.[1]);
+  if (status === 413 || /too large|exceeds/i.test(message)) {
+    return new UploadError('tooLarge', message);
+  }
+  if (status === 400 && /mime|format|codec|unsupported/i.test(message)) {
+    return new UploadError('unsupported', message);
+  }
+  if (
+    e instanceof TypeError ||
+    status === 429 ||
+    status >= 500 ||
+    /network|failed to fetch/i.test(message)
+  ) {
+    return new UploadError('network', message);
+  }
+  return new UploadError('processingFailed', message);
+};
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Token usage and cost estimates. Every model call is recorded in IndexedDB
+// (see storage.ts); prices and the daily budget are user settings.
+
+import {TokenUsage} from './provider';
+import {addUsageRecord} from './storage';
+import {UsageRecord, VideoProbe} from './types';
+
+const PRICES_KEY = 'usagePrices';
+const BUDGET_KEY = 'usageBudget';
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': {input: 1.25, output: 10},
+  'gemini-2.5-flash': {input: 0.3, output: 2.5},
+  'gemini-2.5-flash-lite': {input: 0.1, output: 0.4},
+  'gemini-2.0-flash': {input: 0.1, output: 0.4},
+};
+
+// Gemini samples video at 1 fps: 258 tokens per frame plus 32 for audio.
+const VIDEO_TOKENS_PER_SECOND = 290;
+const PROMPT_TOKENS_GUESS = 1000;
+const OUTPUT_TOKENS_GUESS = 1000;
+
+// Start of the current page session.
+export const SESSION_START = Date.now();
+
+export const loadPrices = (): Record<string, ModelPrice> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICES_KEY) || 'null');
+    return stored && typeof stored === 'object' ? stored : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePrices = (prices: Record<string, ModelPrice>) =>
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+
+// Daily budget in USD; 0 means no limit.
+export const loadBudget = () => Number(localStorage.getItem(BUDGET_KEY)) || 0;
+
+export const saveBudget = (budget: number) =>
+  localStorage.setItem(BUDGET_KEY, `${budget}`);
+
+// Model names may carry suffixes ("gemini-2.5-flash-001"); the longest
+// matching price entry wins.
+const priceFor = (model: string, prices: Record<string, ModelPrice>) => {
+  const key = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+};
+
+export const hasPrice = (model: string, prices: Record<string, ModelPrice>) =>
+  priceFor(model, prices) !== null;
+
+// Null when the model has no price, e.g. a local server.
+export const recordCost = (
+  record: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>,
+  prices: Record<string, ModelPrice>,
+) => {
+  const price = priceFor(record.model, prices);
+  return price
+    ? (record.inputTokens * price.input + record.outputTokens * price.output) /
+        1e6
+    : null;
+};
+
+export const dayKey = (time: number) => {
+  const d = new Date(time);
+  const pad = (n: number) => `${n}`.padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  videoTokens: number;
+  cost: number;
+}
+
+export const summarizeUsage = (
+  records: UsageRecord[],
+  groupBy: (record: UsageRecord) => string,
+  prices: Record<string, ModelPrice>,
+): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  records.forEach((record) => {
+    const key = groupBy(record);
+    const group = groups.get(key) || {
+      key,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      videoTokens: 0,
+      cost: 0,
+    };
+    group.calls++;
+    group.inputTokens += record.inputTokens;
+    group.outputTokens += record.outputTokens;
+    group.videoTokens += record.videoTokens;
+    group.cost += recordCost(record, prices) || 0;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+export const totalCost = (
+  records: UsageRecord[],
+  prices: Record<string, ModelPrice>,
+) => records.reduce((sum, r) => sum + (recordCost(r, prices) || 0), 0);
+
+// Average cost of earlier calls of the same mode and model; without history
+// the cost is guessed from the clip duration.
+export const estimateRunCost = (
+  records: UsageRecord[],
+  prices: Record<string, ModelPrice>,
+  {mode, model}: {mode: string; model: string},
+  videos: {probe?: VideoProbe}[],
+) => {
+  const similar = records.filter((r) => r.mode === mode && r.model === model);
+  if (similar.length) {
+    return (totalCost(similar, prices) / similar.length) * videos.length;
+  }
+  return videos.reduce(
+    (sum, video) =>
+      sum +
+      (recordCost(
+        {
+          model,
+          inputTokens:
+            PROMPT_TOKENS_GUESS +
+            (video.probe?.duration || 0) * VIDEO_TOKENS_PER_SECOND,
+          outputTokens: OUTPUT_TOKENS_GUESS,
+        },
+        prices,
+      ) || 0),
+    0,
+  );
+};
+
+export const formatCost = (usd: number) =>
+  `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+type UsageListener = (record: UsageRecord) => void;
+const listeners = new Set<UsageListener>();
+
+export const subscribeUsage = (listener: UsageListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (
+  usage: TokenUsage,
+  meta: Omit<UsageRecord, 'id' | 'time' | keyof TokenUsage>,
+) => {
+  const record: UsageRecord = {
+    id: self.crypto.randomUUID(),
+    time: Date.now(),
+    ...meta,
+    ...usage,
+  };
+  listeners.forEach((listener) => listener(record));
+  addUsageRecord(record).catch((err) =>
+    console.error('Failed to save usage', err),
+  );
+};
@@ -17,10 +17,31 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export const timeToSecs = (timecode) => {
-  const split = timecode.split(':').map(parseFloat);
+export const stripExtension = (name: string) => name.replace(/\.[^./\\]+$/, '');
 
-  return split.length === 2
-    ? split[0] * 60 + split[1]
-    : split[0] * 3600 + split[1] * 60 + split[2];
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
+
+// Reads the duration of a video without mounting it, e.g. for batch items
+// that are not currently shown in the player.
+export const getVideoDuration = (url: string) =>
+  new Promise<number>((resolve) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(video.duration);
+    video.onerror = () => resolve(NaN);
+    video.src = url;
+  });
+
+export const formatSize = (bytes: number) =>
+  bytes >= 1e9
+    ? `${(bytes / 1e9).toFixed(2)} ГБ`
+    : `${(bytes / 1e6).toFixed(1)} МБ`;
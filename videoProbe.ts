@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Local technical probe of a video file: the browser decodes duration and
+// frame size, the MP4/MOV sample tables give frame rate, codec and alpha, and
+// comparing the first and last frames hints at a seamless loop.
+
+import {
+  Box,
+  Mp4FormatError,
+  childBoxes,
+  findBox,
+  readMoov,
+  readTopLevelBoxes,
+  readType,
+} from './mp4Boxes';
+import {VideoProbe} from './types';
+import {secsToTime} from './timecode';
+import {formatSize} from './utils';
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC',
+  hev1: 'HEVC',
+  apco: 'ProRes 422 Proxy',
+  apcs: 'ProRes 422 LT',
+  apcn: 'ProRes 422',
+  apch: 'ProRes 422 HQ',
+  ap4h: 'ProRes 4444',
+  ap4x: 'ProRes 4444 XQ',
+  av01: 'AV1',
+  vp09: 'VP9',
+  mp4v: 'MPEG-4',
+  jpeg: 'Motion JPEG',
+  'png ': 'PNG',
+};
+
+// Visual sample entries store 32 bits per pixel when there is alpha.
+const ALPHA_DEPTH = 32;
+// Offset of `depth` from the start of a visual sample entry's payload.
+const DEPTH_OFFSET = 74;
+// Mean per-channel difference (0-255) under which two frames count as equal.
+const LOOP_TOLERANCE = 6;
+const LOOP_NAME = /(^|[^a-z])(loop|looped|loopable|seamless)([^a-z]|$)/i;
+const SEEK_TIMEOUT = 5000;
+
+type TrackInfo = Pick<VideoProbe, 'frameRate' | 'codec' | 'hasAlpha'>;
+
+const readVideoTrack = async (file: Blob): Promise<TrackInfo> => {
+  const moov = await readMoov(file, await readTopLevelBoxes(file));
+  if (!moov) return {};
+  const {bytes, root} = moov;
+  const view = new DataView(bytes.buffer);
+  const payload = (box: Box) => box.start + box.headerSize;
+
+  for (const trak of childBoxes(bytes, root).filter((b) => b.type === 'trak')) {
+    const hdlr = findBox(bytes, trak, ['mdia', 'hdlr']);
+    if (!hdlr || readType(bytes, payload(hdlr) + 8) !== 'vide') continue;
+
+    const info: TrackInfo = {};
+    const stbl = findBox(bytes, trak, ['mdia', 'minf', 'stbl']);
+    const stsd = stbl && findBox(bytes, stbl, ['stsd']);
+    if (stsd && view.getUint32(payload(stsd) + 4) > 0) {
+      const entry = childBoxes(bytes, {...stsd, headerSize: stsd.headerSize + 8})[0];
+      if (entry) {
+        info.codec = CODEC_NAMES[entry.type] || entry.type.trim();
+        info.hasAlpha =
+          view.getUint16(payload(entry) + DEPTH_OFFSET) === ALPHA_DEPTH;
+      }
+    }
+
+    const mdhd = findBox(bytes, trak, ['mdia', 'mdhd']);
+    const stts = stbl && findBox(bytes, stbl, ['stts']);
+    if (mdhd && stts) {
+      const version = bytes[payload(mdhd)];
+      const timescale = view.getUint32(payload(mdhd) + (version === 1 ? 20 : 12));
+      let samples = 0;
+      let ticks = 0;
+      const count = view.getUint32(payload(stts) + 4);
+      for (let i = 0; i < count; i++) {
+        const at = payload(stts) + 8 + i * 8;
+        samples += view.getUint32(at);
+        ticks += view.getUint32(at) * view.getUint32(at + 4);
+      }
+      if (samples && ticks) {
+        info.frameRate = Math.round((samples * timescale * 1000) / ticks) / 1000;
+      }
+    }
+    return info;
+  }
+  return {};
+};
+
+export const loadVideo = (url: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Браузер не может прочитать видео.'));
+    video.src = url;
+  });
+
+export const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, SEEK_TIMEOUT);
+    video.onseeked = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    video.currentTime = time;
+  });
+
+const framesMatch = async (video: HTMLVideoElement, frameRate = 30) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 32;
+  canvas.height = 18;
+  const ctx = canvas.getContext('2d', {willReadFrequently: true});
+  const grab = async (time: number) => {
+    await seek(video, time);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  };
+  const first = await grab(0);
+  const last = await grab(Math.max(0, video.duration - 1 / frameRate));
+  let diff = 0;
+  for (let i = 0; i < first.length; i++) {
+    if (i % 4 !== 3) diff += Math.abs(first[i] - last[i]);
+  }
+  return diff / ((first.length / 4) * 3) < LOOP_TOLERANCE;
+};
+
+export async function probeVideo(file: File, url: string): Promise<VideoProbe> {
+  let track: TrackInfo = {};
+  try {
+    track = await readVideoTrack(file);
+  } catch (e) {
+    // WebM and other non-ISO containers only get the browser-side fields.
+    if (!(e instanceof Mp4FormatError)) throw e;
+  }
+
+  const video = await loadVideo(url);
+  let looped = LOOP_NAME.test(file.name);
+  if (!looped) {
+    try {
+      looped = await framesMatch(video, track.frameRate);
+    } catch (e) {
+      console.warn('Loop check failed', e);
+    }
+  }
+  const probe: VideoProbe = {
+    duration: video.duration,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    fileSize: file.size,
+    bitrate: video.duration ? Math.round((file.size * 8) / video.duration) : 0,
+    ...track,
+    looped,
+  };
+  video.removeAttribute('src');
+  video.load();
+  return probe;
+}
+
+const THUMBNAIL_WIDTH = 160;
+
+// A frame from early in the clip, skipping a possible fade-in.
+export async function captureThumbnail(url: string) {
+  const video = await loadVideo(url);
+  try {
+    await seek(video, Math.min(1, video.duration / 2));
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(
+      (THUMBNAIL_WIDTH * video.videoHeight) / video.videoWidth,
+    );
+    canvas.getContext('2d').drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+// Marketing name of the resolution, by the short side so vertical clips match.
+export const resolutionLabel = ({width, height}: VideoProbe) => {
+  const side = Math.min(width, height);
+  if (side >= 4320) return '8K';
+  if (side >= 2160) return '4K';
+  if (side >= 1440) return '2K';
+  if (side >= 1080) return 'Full HD';
+  if (side >= 720) return 'HD';
+  return 'SD';
+};
+
+// Values available to prompts and exports; empty strings when unknown.
+export const probeVariables = (probe?: VideoProbe): Record<string, string> => ({
+  resolution: probe ? resolutionLabel(probe) : '',
+  width: probe ? `${probe.width}` : '',
+  height: probe ? `${probe.height}` : '',
+  fps: probe?.frameRate ? `${probe.frameRate}` : '',
+  codec: probe?.codec || '',
+  bitrate: probe?.bitrate ? `${(probe.bitrate / 1e6).toFixed(1)} Мбит/с` : '',
+  duration: probe?.duration ? secsToTime(Math.round(probe.duration)) : '',
+  fileSize: probe ? formatSize(probe.fileSize) : '',
+  alpha: probe?.hasAlpha ? 'alpha channel' : '',
+  looped: probe?.looped ? 'looped' : '',
+});
+
+export const formatProbe = (probe: VideoProbe) => {
+  const vars = probeVariables(probe);
+  return [
+    `${vars.width}×${vars.height} (${vars.resolution})`,
+    vars.fps && `${vars.fps} fps`,
+    vars.codec,
+    vars.bitrate,
+    vars.duration,
+    vars.fileSize,
+    probe.hasAlpha && 'альфа-канал',
+    probe.looped && 'зацикленное',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+// Appended to SEO prompts so the model does not invent technical claims.
+export const probePromptNote = (probe: VideoProbe) =>
+  `Технические характеристики файла: ${formatProbe(probe)}. Не указывай в заголовке и ключевых словах характеристики, которых у файла нет (например, 4K для HD-видео).`;
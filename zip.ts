@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Minimal ZIP writer (STORE method, no compression). Subtitles and CSV files
+// are tiny and videos are already compressed, so deflate would gain nothing
+// and would require an extra dependency. Sizes and offsets past 4 GiB, common
+// for a batch of 4K clips, are written as ZIP64 records.
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array | Blob;
+}
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+};
+
+const CRC_CHUNK = 8 * 1024 * 1024;
+
+// Blobs (e.g. whole videos) are checksummed in chunks and stored as-is, so a
+// batch of clips never has to be held in memory at once.
+const crc32 = async (data: Uint8Array | Blob) => {
+  let crc = 0xffffffff;
+  if (data instanceof Blob) {
+    for (let start = 0; start < data.size; start += CRC_CHUNK) {
+      const chunk = data.slice(start, start + CRC_CHUNK);
+      crc = updateCrc(crc, new Uint8Array(await chunk.arrayBuffer()));
+    }
+  } else {
+    crc = updateCrc(crc, data);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return {time, day};
+};
+
+// Field value that tells the reader to look in the ZIP64 extra field.
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_VERSION = 45;
+
+// ZIP64 extended information extra field holding the given 64-bit values.
+const zip64Extra = (values: number[]) => {
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, 0x0001, true);
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) =>
+    extra.setBigUint64(4 + i * 8, BigInt(value), true),
+  );
+  return new Uint8Array(extra.buffer);
+};
+
+const toBytes = (data: ZipEntry['data']) =>
+  typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+const byteLength = (data: Uint8Array | Blob) =>
+  data instanceof Blob ? data.size : data.length;
+
+// Appends " (2)", " (3)"... before the extension so entries never collide.
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  let i = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const dot = name.lastIndexOf('.');
+    candidate =
+      dot > 0
+        ? `${name.slice(0, dot)} (${i})${name.slice(dot)}`
+        : `${name} (${i})`;
+    i++;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const {time, day} = dosDateTime(new Date());
+  const used = new Set<string>();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(uniqueName(entry.name, used));
+    const data = toBytes(entry.data);
+    const crc = await crc32(data);
+    const size = byteLength(data);
+    const bigSize = size >= ZIP64_LIMIT;
+    const bigOffset = offset >= ZIP64_LIMIT;
+    const version = bigSize || bigOffset ? ZIP64_VERSION : 20;
+
+    // The local extra field always holds both sizes; the central one only
+    // the values that overflow, in this order.
+    const localExtra = bigSize ? zip64Extra([size, size]) : new Uint8Array(0);
+    const centralExtra = zip64Extra([
+      ...(bigSize ? [size, size] : []),
+      ...(bigOffset ? [offset] : []),
+    ]);
+    const centralExtraLength = version === 20 ? 0 : centralExtra.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, version, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, Math.min(size, ZIP64_LIMIT), true);
+    local.setUint32(22, Math.min(size, ZIP64_LIMIT), true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, localExtra.length, true);
+    parts.push(local.buffer, name, localExtra, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, version, true);
+    header.setUint16(6, version, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, day, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, Math.min(size, ZIP64_LIMIT), true);
+    header.setUint32(24, Math.min(size, ZIP64_LIMIT), true);
+    header.setUint16(28, name.length, true);
+    header.setUint16(30, centralExtraLength, true);
+    header.setUint32(42, Math.min(offset, ZIP64_LIMIT), true);
+    const record = new Uint8Array(46 + name.length + centralExtraLength);
+    record.set(new Uint8Array(header.buffer), 0);
+    record.set(name, 46);
+    if (centralExtraLength) record.set(centralExtra, 46 + name.length);
+    central.push(record);
+
+    offset += 30 + name.length + localExtra.length + size;
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  const trailer: ArrayBuffer[] = [];
+  if (
+    entries.length >= 0xffff ||
+    centralSize >= ZIP64_LIMIT ||
+    offset >= ZIP64_LIMIT
+  ) {
+    const record = new DataView(new ArrayBuffer(56));
+    record.setUint32(0, 0x06064b50, true);
+    record.setBigUint64(4, 44n, true);
+    record.setUint16(12, ZIP64_VERSION, true);
+    record.setUint16(14, ZIP64_VERSION, true);
+    record.setBigUint64(24, BigInt(entries.length), true);
+    record.setBigUint64(32, BigInt(entries.length), true);
+    record.setBigUint64(40, BigInt(centralSize), true);
+    record.setBigUint64(48, BigInt(offset), true);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064b50, true);
+    locator.setBigUint64(8, BigInt(offset + centralSize), true);
+    locator.setUint32(16, 1, true);
+    trailer.push(record.buffer, locator.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Math.min(entries.length, 0xffff), true);
+  end.setUint16(10, Math.min(entries.length, 0xffff), true);
+  end.setUint32(12, Math.min(centralSize, ZIP64_LIMIT), true);
+  end.setUint32(16, Math.min(offset, ZIP64_LIMIT), true);
+
+  return new Blob([...parts, ...central, ...trailer, end.buffer], {
+    type: 'application/zip',
+  });
+}